@@ -0,0 +1,106 @@
+#!/usr/bin/env tsx
+
+/**
+ * Send signed requests to a running node's admin API
+ *
+ * Requests are signed with the admin key in ADMIN_KEYPAIR_FILE (or --keypair-file),
+ * a solana-keygen JSON file whose public key is listed in admin.authorizedKeys.
+ * The API address is ADMIN_URL, or http://127.0.0.1:9091.
+ *
+ * Usage:
+ *   npm run admin -- status | offers | pause | resume | drain | refresh-balances
+ *   npm run admin -- deactivate <walletPublicKey>
+ *   npm run admin -- activate <walletPublicKey>
+ *   npm run admin -- audit [--limit 100]
+ *   npm run admin -- pubkey
+ */
+
+import { readFileSync } from 'fs'
+import { randomBytes } from 'crypto'
+import { config } from 'dotenv'
+import { Keypair } from '@solana/web3.js'
+import { sign } from 'tweetnacl'
+import { NODE_AUTH_VERSION, nodeAuthMessage } from '../src/api/NodeAuth'
+
+config({ path: '.env.local' })
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function loadAdminKeypair(): Keypair {
+  const path = getArg('keypair-file') || process.env.ADMIN_KEYPAIR_FILE
+  if (!path) {
+    throw new Error('Set ADMIN_KEYPAIR_FILE or pass --keypair-file <path>')
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync(path, 'utf-8'))))
+}
+
+function resolveRequest(command: string | undefined, target: string | undefined): { method: 'GET' | 'POST'; path: string } {
+  const requireTarget = () => {
+    if (!target) throw new Error(`Usage: ${command} <walletPublicKey>`)
+    return target
+  }
+
+  switch (command) {
+    case 'status':
+      return { method: 'GET', path: '/admin/status' }
+    case 'offers':
+      return { method: 'GET', path: '/admin/offers' }
+    case 'pause':
+    case 'resume':
+    case 'drain':
+      return { method: 'POST', path: `/admin/${command}` }
+    case 'deactivate':
+    case 'activate':
+      return { method: 'POST', path: `/admin/wallets/${requireTarget()}/${command}` }
+    case 'refresh-balances':
+      return { method: 'POST', path: '/admin/balances/refresh' }
+    case 'audit':
+      return { method: 'GET', path: `/admin/audit?limit=${parseInt(getArg('limit') || '100')}` }
+    default:
+      throw new Error(`Unknown command ${command ?? ''}, expected status, offers, pause, resume, drain, deactivate, activate, refresh-balances, audit or pubkey`)
+  }
+}
+
+async function main() {
+  const [command, target] = process.argv.slice(2)
+  const keypair = loadAdminKeypair()
+
+  if (command === 'pubkey') {
+    console.log(keypair.publicKey.toString())
+    return
+  }
+
+  const { method, path } = resolveRequest(command, target)
+  const adminUrl = (process.env.ADMIN_URL || 'http://127.0.0.1:9091').replace(/\/$/, '')
+
+  // Same scheme as the node's dispatcher auth, bound to the admin host with a fresh nonce
+  const timestamp = Date.now().toString()
+  const nonce = randomBytes(16).toString('hex')
+  const message = nodeAuthMessage({ host: new URL(adminUrl).host, timestamp, nonce, method, path, body: '' })
+  const signature = sign.detached(message, keypair.secretKey)
+
+  const response = await fetch(`${adminUrl}${path}`, {
+    method,
+    headers: {
+      'X-Admin-Pubkey': keypair.publicKey.toString(),
+      'X-Signature': Buffer.from(signature).toString('base64'),
+      'X-Timestamp': timestamp,
+      'X-Nonce': nonce,
+      'X-Auth-Version': NODE_AUTH_VERSION
+    }
+  })
+
+  const body = await response.text()
+  console.log(body)
+  if (!response.ok) {
+    throw new Error(`${method} ${path} failed with ${response.status}`)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Admin command failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,129 @@
+#!/usr/bin/env tsx
+
+/**
+ * Export earnings reports from the node's earnings ledger
+ *
+ * Reads $DATA_DIR/earnings-ledger.jsonl and $DATA_DIR/payouts.json; the running
+ * node keeps both up to date, so this works offline. Dates are UTC and --to is inclusive.
+ *
+ * Usage:
+ *   npm run earnings -- report [--by part|day|wallet] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--format csv|json] [--out <file>]
+ *   npm run earnings -- reconcile [--address <payoutAddress>] [--from ...] [--to ...] [--format csv|json] [--out <file>]
+ */
+
+import { writeFileSync } from 'fs'
+import { config } from 'dotenv'
+import { EarningsLedger, TimeRange } from '../src/earnings/EarningsLedger'
+
+config({ path: '.env.local' })
+
+// Reports go to stdout; keep the ledger's info logging out of them
+process.env.LOG_LEVEL = 'warn'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function parseDay(name: string): number | undefined {
+  const value = getArg(name)
+  if (!value) return undefined
+
+  const timestamp = Date.parse(`${value}T00:00:00Z`)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(timestamp)) {
+    throw new Error(`--${name} must be a date like 2024-01-31`)
+  }
+  return timestamp
+}
+
+function getRange(): TimeRange {
+  const from = parseDay('from')
+  const to = parseDay('to')
+  return {
+    ...(from !== undefined && { from }),
+    ...(to !== undefined && { to: to + DAY_MS })
+  }
+}
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(rows: object[]): string {
+  if (rows.length === 0) return ''
+
+  // Union of keys, so optional fields get a column even if the first row lacks them
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+  const lines = rows.map(row => columns.map(column => csvField((row as Record<string, unknown>)[column])).join(','))
+  return [columns.join(','), ...lines].join('\n') + '\n'
+}
+
+function resolvePayoutAddress(ledger: EarningsLedger): string {
+  const address = getArg('address') || process.env.PAYOUT_ADDRESS
+  if (address) return address
+
+  const known = ledger.getPayoutAddresses()
+  if (known.length !== 1) {
+    throw new Error(known.length === 0
+      ? 'No payouts scanned yet; pass --address or set PAYOUT_ADDRESS'
+      : `Payouts were scanned for ${known.join(', ')}; pick one with --address`)
+  }
+  return known[0]!
+}
+
+function output(rows: object[], json: unknown): void {
+  const format = getArg('format') || 'csv'
+  if (format !== 'csv' && format !== 'json') {
+    throw new Error('--format must be csv or json')
+  }
+
+  const text = format === 'csv' ? toCsv(rows) : JSON.stringify(json, null, 2) + '\n'
+  const out = getArg('out')
+  if (out) {
+    writeFileSync(out, text)
+    console.error(`📄 Wrote ${rows.length} rows to ${out}`)
+  } else {
+    process.stdout.write(text)
+  }
+}
+
+async function main() {
+  const [command] = process.argv.slice(2)
+  const ledger = new EarningsLedger()
+  ledger.load()
+  const range = getRange()
+
+  switch (command) {
+    case 'report': {
+      const by = getArg('by') || 'part'
+      if (by === 'part') {
+        const records = ledger.getRecords(range)
+        output(records.map(record => ({ ...record, completedAt: new Date(record.completedAt).toISOString() })), records)
+      } else if (by === 'day' || by === 'wallet') {
+        const rows = ledger.summarize(by, range).map(({ key, ...totals }) => ({ [by]: key, ...totals }))
+        output(rows, rows)
+      } else {
+        throw new Error('--by must be part, day or wallet')
+      }
+      break
+    }
+
+    case 'reconcile': {
+      const reconciliation = ledger.reconcile(resolvePayoutAddress(ledger), range)
+      output(reconciliation.days, reconciliation)
+      console.error(`💰 Expected ${reconciliation.expectedLamports}, received ${reconciliation.receivedLamports} in ${reconciliation.payouts} payouts, outstanding ${reconciliation.outstandingLamports} lamports`)
+      break
+    }
+
+    default:
+      throw new Error(`Unknown command ${command ?? ''}, expected report or reconcile`)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Earnings command failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -60,8 +60,19 @@ NODE_SIGNER_SECRET=${nodeSigner.secretKey}
 # Relay Wallets (JSON array of base64 secret keys)
 RELAY_SIGNERS=${JSON.stringify(relayWallets)}
 
+# Encrypted keystore (optional): move the keys above into it with
+# npm run keystore -- init --import-env, then set KEYSTORE_PATH and delete them here
+# KEYSTORE_PATH=./data/keystore.json
+# KEYSTORE_PASSPHRASE_FILE=/run/secrets/shh-keystore-passphrase
+
+# Signing daemon (optional): run npm run signer where the keys live and point the node
+# at its socket; the node then needs none of the keys above
+# SIGNER_SOCKET=./data/signer.sock
+
 # Dispatcher Configuration (Phase 2)
 DISPATCHER_URL=https://dispatcher.dev.shh.cash
+# Where the dispatcher pays out earnings, if not the node signer (used for payout reconciliation)
+# PAYOUT_ADDRESS=
 HEARTBEAT_INTERVAL_MS=30000
 OFFER_POLL_INTERVAL_MS=5000
 
@@ -73,6 +84,8 @@ FEE_PAYER_MODE=sponsored
 HEALTH_PORT=8080
 METRICS_PORT=9090
 LOG_LEVEL=info
+LOG_FORMAT=text
+# LOG_FILE=./logs/shh-node.log
 
 # Limits
 MAX_PER_TX_LAMPORTS=500000000
@@ -0,0 +1,188 @@
+#!/usr/bin/env tsx
+
+/**
+ * Manage the encrypted signer keystore
+ *
+ * Secret keys are never printed; only labels and public keys are shown.
+ * The keystore path is KEYSTORE_PATH, or $DATA_DIR/keystore.json.
+ *
+ * Usage:
+ *   npm run keystore -- init [--import-env]
+ *   npm run keystore -- list
+ *   npm run keystore -- add-relay <label> [--keypair-file <path>]
+ *   npm run keystore -- remove-relay <label|publicKey> [--export-keypair <path> | --force]
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+import { createInterface } from 'readline'
+import { config } from 'dotenv'
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import { Commitment, Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js'
+import { Keystore, resolveKeystorePassphrase } from '../src/wallet/Keystore'
+import { getDataPath } from '../src/utils/Storage'
+
+config({ path: '.env.local' })
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`)
+}
+
+// solana-keygen style JSON byte array
+function readKeypairFile(path: string): Keypair {
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync(path, 'utf-8'))))
+}
+
+// What the relay still holds on chain, e.g. ['0.5 SOL']; empty when it is safe to forget the key
+async function heldBalances(owner: PublicKey): Promise<string[]> {
+  const connection = new Connection(
+    process.env.RPC_URL || 'https://api.devnet.solana.com',
+    (process.env.RPC_COMMITMENT as Commitment | undefined) || 'confirmed'
+  )
+
+  const held: string[] = []
+  const lamports = await connection.getBalance(owner)
+  if (lamports > 0) {
+    held.push(`${lamports / LAMPORTS_PER_SOL} SOL`)
+  }
+  for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+    const { value } = await connection.getParsedTokenAccountsByOwner(owner, { programId })
+    for (const { account } of value) {
+      const { mint, tokenAmount } = account.data.parsed.info
+      if (tokenAmount.amount !== '0') {
+        held.push(`${tokenAmount.uiAmountString} of mint ${mint}`)
+      }
+    }
+  }
+  return held
+}
+
+// Make the operator type the label back, so a forced removal is never a slip of the shell history
+async function confirmByTyping(label: string): Promise<void> {
+  if (!process.stdin.isTTY) return
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  const answer = await new Promise<string>(resolve => rl.question(`   Type ${label} to remove it anyway: `, resolve))
+  rl.close()
+  if (answer.trim() !== label) {
+    throw new Error('Confirmation did not match, keystore left unchanged')
+  }
+}
+
+async function newPassphrase(): Promise<string> {
+  const passphrase = await resolveKeystorePassphrase('New keystore passphrase: ')
+  if (!process.env.KEYSTORE_PASSPHRASE_FILE && !process.env.KEYSTORE_PASSPHRASE) {
+    const repeated = await resolveKeystorePassphrase('Repeat passphrase: ')
+    if (repeated !== passphrase) {
+      throw new Error('Passphrases do not match')
+    }
+  }
+  return passphrase
+}
+
+function printKeystore(keystore: Keystore): void {
+  console.log(`🔐 Keystore ${keystore.path}`)
+  console.log(`   Node signer: ${keystore.nodeSigner.publicKey.toString()}`)
+  const relays = keystore.listRelays()
+  console.log(`   Relay signers (${relays.length}):`)
+  for (const { label, publicKey } of relays) {
+    console.log(`     ${label.padEnd(20)} ${publicKey}`)
+  }
+}
+
+async function init(path: string): Promise<void> {
+  // Migrate plaintext env keys, or start with a fresh node signer
+  const importEnv = hasFlag('import-env')
+  if (importEnv && !process.env.NODE_SIGNER_SECRET) {
+    throw new Error('--import-env needs NODE_SIGNER_SECRET')
+  }
+  const nodeSigner = importEnv
+    ? Keypair.fromSecretKey(Buffer.from(process.env.NODE_SIGNER_SECRET!, 'base64'))
+    : Keypair.generate()
+
+  const keystore = Keystore.create(path, await newPassphrase(), nodeSigner)
+
+  if (importEnv && process.env.RELAY_SIGNERS) {
+    const relaySecrets = JSON.parse(process.env.RELAY_SIGNERS) as string[]
+    relaySecrets.forEach((secret, index) => {
+      keystore.addRelay(`relay-${index + 1}`, Keypair.fromSecretKey(Buffer.from(secret, 'base64')))
+    })
+  }
+
+  printKeystore(keystore)
+  console.log()
+  console.log(`Set KEYSTORE_PATH=${path} and remove NODE_SIGNER_SECRET and RELAY_SIGNERS from .env.local`)
+}
+
+async function main() {
+  const [command, target] = process.argv.slice(2)
+  const path = process.env.KEYSTORE_PATH || getDataPath('keystore.json')
+
+  if (command === 'init') {
+    await init(path)
+    return
+  }
+
+  if (!Keystore.exists(path)) {
+    throw new Error(`No keystore at ${path}, create one with: npm run keystore -- init`)
+  }
+
+  const keystore = Keystore.unlock(path, await resolveKeystorePassphrase())
+
+  switch (command) {
+    case 'list':
+      printKeystore(keystore)
+      break
+
+    case 'add-relay': {
+      if (!target) throw new Error('Usage: add-relay <label> [--keypair-file <path>]')
+      const keypairFile = getArg('keypair-file')
+      const keypair = keypairFile ? readKeypairFile(keypairFile) : Keypair.generate()
+      keystore.addRelay(target, keypair)
+      console.log(`✅ Added relay signer ${target}: ${keypair.publicKey.toString()}`)
+      if (!keypairFile) {
+        console.log('   Fund it before it can relay offers')
+      }
+      break
+    }
+
+    case 'remove-relay': {
+      if (!target) throw new Error('Usage: remove-relay <label|publicKey> [--export-keypair <path> | --force]')
+      const relay = keystore.findRelay(target)
+      console.log(`⚠️  Removing relay signer ${relay.label}: ${relay.keypair.publicKey.toString()}`)
+      console.log('   The keystore may hold the only copy of this key; funds left on it are lost with it')
+
+      const exportFile = getArg('export-keypair')
+      if (exportFile) {
+        // solana-keygen format, so the key can be imported again with add-relay --keypair-file
+        writeFileSync(exportFile, JSON.stringify(Array.from(relay.keypair.secretKey)), { mode: 0o600, flag: 'wx' })
+        console.log(`   Exported its keypair to ${exportFile}`)
+      } else if (hasFlag('force')) {
+        await confirmByTyping(relay.label)
+      } else {
+        const held = await heldBalances(relay.keypair.publicKey)
+        if (held.length > 0) {
+          throw new Error(
+            `${relay.label} still holds ${held.join(', ')}. Sweep it first, keep a copy with --export-keypair <path>, or remove it anyway with --force`
+          )
+        }
+      }
+
+      keystore.removeRelay(relay.label)
+      console.log(`🗑️  Removed relay signer ${relay.label}`)
+      break
+    }
+
+    default:
+      throw new Error(`Unknown command ${command ?? ''}, expected init, list, add-relay or remove-relay`)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Keystore command failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
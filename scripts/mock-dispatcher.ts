@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+
+/**
+ * Local Mock Dispatcher
+ *
+ * Serves the /api/node/* protocol so ShhNode can run end-to-end without the
+ * real dispatcher. Point the node at it with DISPATCHER_URL=http://127.0.0.1:8787
+ *
+ * Usage: npm run dispatcher:mock -- [--port 8787] [--offers 5] [--interval 10000] [--clock-offset-ms 0]
+ */
+
+import { MockDispatcher } from '../src/testing/MockDispatcher'
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function main() {
+  const port = getArg('port')
+  const clockOffsetMs = getArg('clock-offset-ms')
+  const dispatcher = new MockDispatcher({
+    ...(port && { port: parseInt(port) }),
+    ...(clockOffsetMs && { clockOffsetMs: parseInt(clockOffsetMs) })
+  })
+  await dispatcher.start()
+  console.log(`🔏 Signing offers with ${dispatcher.signingPublicKey}`)
+  console.log(`   Pin it on the node: SHH_DISPATCHER_SIGNING_KEYS='["${dispatcher.signingPublicKey}"]'`)
+
+  const offerCount = parseInt(getArg('offers') || '0')
+  if (offerCount > 0) {
+    const interval = parseInt(getArg('interval') || '10000')
+    console.log(`🎯 Emitting ${offerCount} offers every ${interval}ms`)
+    dispatcher.emitOffers(Array.from({ length: offerCount }, () => ({})), interval)
+  }
+
+  console.log('🛠️  Control endpoints:')
+  console.log(`   POST   ${dispatcher.url}/__mock/offers    (publish an offer)`)
+  console.log(`   POST   ${dispatcher.url}/__mock/expire    { offerId }`)
+  console.log(`   POST   ${dispatcher.url}/__mock/claim     { offerId }  (force a 409 race)`)
+  console.log(`   POST   ${dispatcher.url}/__mock/failures  { route, status, times, delayMs? }`)
+  console.log(`   GET    ${dispatcher.url}/__mock/state`)
+  console.log()
+
+  const shutdown = async () => {
+    console.log()
+    console.log('📊 Submitted by node:')
+    console.log(`   Acceptances: ${dispatcher.acceptances.length}`)
+    console.log(`   Receipts:    ${dispatcher.receipts.length}`)
+    console.log(`   Heartbeats:  ${dispatcher.heartbeats.length}`)
+    console.log(`   Rejected:    ${dispatcher.rejectedRequests.length}`)
+    await dispatcher.stop()
+    process.exit(0)
+  }
+
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch((error) => {
+  console.error('💥 Mock dispatcher failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,45 @@
+#!/usr/bin/env tsx
+
+/**
+ * Publish a test offer to a running mock dispatcher
+ *
+ * Usage: npm run dispatcher:mock-offer -- --asset SOL --amount 10000000 --recipient <PUBKEY>
+ */
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function main() {
+  const dispatcherUrl = (process.env.MOCK_DISPATCHER_URL || 'http://127.0.0.1:8787').replace(/\/$/, '')
+  const recipient = getArg('recipient')
+  if (!recipient) {
+    throw new Error('--recipient is required')
+  }
+
+  const offer = {
+    asset: getArg('asset') || 'SOL',
+    amount: getArg('amount') || '10000000',
+    recipient,
+    feeLamports: parseInt(getArg('fee') || '50000')
+  }
+
+  const response = await fetch(`${dispatcherUrl}/__mock/offers`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(offer)
+  })
+
+  if (!response.ok) {
+    throw new Error(`Mock dispatcher rejected offer: ${response.statusText}`)
+  }
+
+  const published = await response.json() as { id: string }
+  console.log(`📨 Published offer ${published.id} (${offer.asset} ${offer.amount} → ${recipient})`)
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to publish offer:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+/**
+ * Run the signing daemon
+ *
+ * Holds the node, relay and fee payer keys and signs for a node started with
+ * SIGNER_SOCKET, refusing anything outside its own policy (signer-policy.json,
+ * or SIGNER_POLICY_PATH). Keys come from KEYSTORE_PATH when set, otherwise
+ * from the plaintext env vars.
+ *
+ * Usage: npm run signer
+ */
+
+import { readFileSync } from 'fs'
+import { config } from 'dotenv'
+import { PublicKey } from '@solana/web3.js'
+import { Keystore, resolveKeystorePassphrase } from '../src/wallet/Keystore'
+import { LocalSigner } from '../src/signing/LocalSigner'
+import { SigningDaemon } from '../src/signing/SigningDaemon'
+import { SigningPolicy } from '../src/signing/SigningPolicy'
+import { SigningPolicyConfig } from '../src/types'
+import { SIGNING_POLICY_SCHEMA, validateSchema } from '../src/utils/ConfigSchema'
+import { getDataPath } from '../src/utils/Storage'
+
+config({ path: '.env.local' })
+
+function loadPolicy(path: string): SigningPolicyConfig {
+  let policy: SigningPolicyConfig
+  try {
+    policy = JSON.parse(readFileSync(path, 'utf-8')) as SigningPolicyConfig
+  } catch (error) {
+    throw new Error(`Failed to load ${path}: ${error}`)
+  }
+
+  const errors: string[] = []
+  validateSchema(policy, SIGNING_POLICY_SCHEMA, 'policy', errors)
+  if (errors.length === 0) {
+    for (const key of [...policy.allowedPrograms, ...Object.keys(policy.tokens)]) {
+      try {
+        new PublicKey(key)
+      } catch {
+        errors.push(`policy: ${key} is not a valid public key`)
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid signing policy:\n${errors.map(error => `  - ${error}`).join('\n')}`)
+  }
+
+  return policy
+}
+
+async function main() {
+  const keystore = process.env.KEYSTORE_PATH
+    ? Keystore.unlock(process.env.KEYSTORE_PATH, await resolveKeystorePassphrase())
+    : null
+  const signer = LocalSigner.load(keystore)
+
+  const policy = new SigningPolicy(loadPolicy(process.env.SIGNER_POLICY_PATH || 'signer-policy.json'))
+  policy.load()
+
+  const daemon = new SigningDaemon(signer, policy, process.env.SIGNER_SOCKET || getDataPath('signer.sock'))
+  await daemon.start()
+
+  const shutdown = async () => {
+    await daemon.stop()
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch((error) => {
+  console.error('❌ Signing daemon failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,109 @@
+import { Keypair } from '@solana/web3.js'
+import { randomBytes } from 'crypto'
+import { mkdtempSync, rmSync } from 'fs'
+import net from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { sign } from 'tweetnacl'
+import { AdminControls, AdminServer } from './AdminServer'
+import { AuditLog } from './AuditLog'
+import { NODE_AUTH_VERSION, nodeAuthMessage } from '../api/NodeAuth'
+import { NodeConfig } from '../types'
+
+async function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer()
+    probe.listen(0, () => {
+      const address = probe.address()
+      probe.close(() => address && typeof address === 'object' ? resolve(address.port) : reject(new Error('No port')))
+    })
+  })
+}
+
+const CONTROLS: AdminControls = {
+  getIntakeState: () => 'accepting',
+  pause: () => {},
+  resume: () => {},
+  drain: () => {},
+  listOffers: () => [],
+  deactivateWallet: () => {},
+  activateWallet: () => {},
+  refreshBalances: async () => []
+}
+
+describe('AdminServer', () => {
+  const env = process.env
+  const admin = Keypair.generate()
+  let dataDir: string
+  let audit: AuditLog
+  let server: AdminServer
+  let host: string
+  
+  beforeEach(async () => {
+    process.env = { ...env, LOG_LEVEL: 'error' }
+    dataDir = mkdtempSync(join(tmpdir(), 'shh-admin-test-'))
+    audit = new AuditLog(join(dataDir, 'admin-audit.jsonl'))
+    
+    const port = await freePort()
+    host = `127.0.0.1:${port}`
+    const config = {
+      admin: { enabled: true, host: '127.0.0.1', port, authorizedKeys: [admin.publicKey.toString()], maxClockSkewSec: 30 }
+    } as unknown as NodeConfig
+    server = new AdminServer(config, CONTROLS, audit)
+    await server.start()
+  })
+  
+  afterEach(async () => {
+    await server.stop()
+    rmSync(dataDir, { recursive: true, force: true })
+    process.env = env
+  })
+  
+  function signedHeaders(method: string, path: string, signedHost = host): Record<string, string> {
+    const timestamp = Date.now().toString()
+    const nonce = randomBytes(16).toString('hex')
+    const signature = sign.detached(nodeAuthMessage({ host: signedHost, timestamp, nonce, method, path, body: '' }), admin.secretKey)
+    return {
+      'X-Admin-Pubkey': admin.publicKey.toString(),
+      'X-Signature': Buffer.from(signature).toString('base64'),
+      'X-Timestamp': timestamp,
+      'X-Nonce': nonce,
+      'X-Auth-Version': NODE_AUTH_VERSION
+    }
+  }
+  
+  async function getStatus(headers: Record<string, string>): Promise<{ status: number; reason?: string }> {
+    const response = await fetch(`http://${host}/admin/status`, { headers })
+    const body = await response.json() as { reason?: string }
+    return { status: response.status, ...(body.reason !== undefined && { reason: body.reason }) }
+  }
+  
+  it('accepts a request signed with the node auth message', async () => {
+    expect(await getStatus(signedHeaders('GET', '/admin/status'))).toEqual({ status: 200 })
+  })
+  
+  it('refuses a replayed request, including one with its signature re-encoded', async () => {
+    const headers = signedHeaders('GET', '/admin/status')
+    await getStatus(headers)
+    
+    expect(await getStatus(headers)).toEqual({ status: 401, reason: 'replayed nonce' })
+    expect(await getStatus({ ...headers, 'X-Signature': headers['X-Signature']!.replace(/=+$/, '') }))
+      .toEqual({ status: 401, reason: 'malformed signature' })
+  })
+  
+  it('refuses a request signed for another host', async () => {
+    expect(await getStatus(signedHeaders('GET', '/admin/status', 'other-node:9091')))
+      .toEqual({ status: 401, reason: 'invalid signature' })
+  })
+  
+  it('caps refused requests in the audit log and counts the rest', async () => {
+    for (let i = 0; i < 25; i++) {
+      await getStatus({})
+    }
+    await server.stop()
+    
+    const entries = audit.recent(100)
+    expect(entries).toHaveLength(21)
+    expect(entries[20]).toMatchObject({ action: 'denied_requests', detail: '5 more refused requests not recorded individually' })
+  })
+})
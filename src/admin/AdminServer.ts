@@ -0,0 +1,305 @@
+import http from 'http'
+import { PublicKey } from '@solana/web3.js'
+import { sign } from 'tweetnacl'
+import { NODE_AUTH_VERSION, nodeAuthMessage } from '../api/NodeAuth'
+import { AdminOffer, AuditEntry, IntakeState, NodeConfig, WalletBalance } from '../types'
+import { Logger } from '../utils/Logger'
+import { AuditLog } from './AuditLog'
+
+// Admin requests are small JSON bodies at most
+const MAX_BODY_BYTES = 16 * 1024
+
+const DEFAULT_AUDIT_LIMIT = 100
+
+// Refused requests come from anyone who can reach the port, so only this many a minute are
+// written to the audit log; the rest are counted into one summary entry
+const DENIED_AUDIT_LIMIT_PER_MINUTE = 20
+const DENIED_AUDIT_WINDOW_MS = 60 * 1000
+
+// What the admin API can see and change on the running node
+export interface AdminControls {
+  getIntakeState(): IntakeState
+  pause(): void
+  resume(): void
+  drain(): void
+  listOffers(): AdminOffer[]
+  deactivateWallet(publicKey: string): void
+  activateWallet(publicKey: string): void
+  refreshBalances(): Promise<WalletBalance[]>
+}
+
+interface AdminRequest {
+  admin: string
+  params: string[]
+  query: URLSearchParams
+}
+
+interface Route {
+  method: 'GET' | 'POST'
+  pattern: RegExp
+  action: string
+  handle: (request: AdminRequest) => unknown
+}
+
+// Operator control API; every request must be signed by a key in admin.authorizedKeys,
+// with the same NodeAuth message the node signs its dispatcher requests with
+export class AdminServer {
+  private logger = new Logger('AdminServer')
+  private server?: http.Server
+  private config: NodeConfig
+  private controls: AdminControls
+  private audit: AuditLog
+  private routes: Route[]
+  
+  // Nonces already used per admin key, until their timestamp falls outside the skew window
+  private seenNonces = new Map<string, number>()
+  
+  private deniedAudit = { windowStart: 0, recorded: 0, suppressed: 0 }
+  
+  constructor(config: NodeConfig, controls: AdminControls, audit = new AuditLog()) {
+    this.config = config
+    this.controls = controls
+    this.audit = audit
+    this.routes = [
+      { method: 'GET', pattern: /^\/admin\/status$/, action: 'status', handle: () => this.getStatus() },
+      { method: 'GET', pattern: /^\/admin\/offers$/, action: 'list_offers', handle: () => ({ offers: controls.listOffers() }) },
+      { method: 'POST', pattern: /^\/admin\/pause$/, action: 'pause', handle: () => this.changeIntake(() => controls.pause()) },
+      { method: 'POST', pattern: /^\/admin\/resume$/, action: 'resume', handle: () => this.changeIntake(() => controls.resume()) },
+      { method: 'POST', pattern: /^\/admin\/drain$/, action: 'drain', handle: () => this.changeIntake(() => controls.drain()) },
+      {
+        method: 'POST',
+        pattern: /^\/admin\/wallets\/([1-9A-HJ-NP-Za-km-z]{32,44})\/deactivate$/,
+        action: 'deactivate_wallet',
+        handle: ({ params }) => {
+          controls.deactivateWallet(params[0]!)
+          return { publicKey: params[0], deactivated: true }
+        }
+      },
+      {
+        method: 'POST',
+        pattern: /^\/admin\/wallets\/([1-9A-HJ-NP-Za-km-z]{32,44})\/activate$/,
+        action: 'activate_wallet',
+        handle: ({ params }) => {
+          controls.activateWallet(params[0]!)
+          return { publicKey: params[0], deactivated: false }
+        }
+      },
+      { method: 'POST', pattern: /^\/admin\/balances\/refresh$/, action: 'refresh_balances', handle: async () => ({ wallets: await controls.refreshBalances() }) },
+      {
+        method: 'GET',
+        pattern: /^\/admin\/audit$/,
+        action: 'read_audit',
+        handle: ({ query }) => ({ entries: this.audit.recent(parseInt(query.get('limit') || '') || DEFAULT_AUDIT_LIMIT) })
+      }
+    ]
+  }
+  
+  getPort(): number {
+    return this.config.admin.port
+  }
+  
+  async start(): Promise<void> {
+    const { host, port } = this.config.admin
+    
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer(this.handleRequest.bind(this))
+      
+      this.server.listen(port, host, () => {
+        this.logger.info(`🛂 Admin API listening on ${host}:${port} (${this.config.admin.authorizedKeys.length} authorized keys)`)
+        resolve()
+      })
+      
+      this.server.on('error', (error) => {
+        this.logger.error('Admin server error:', error)
+        reject(error)
+      })
+    })
+  }
+  
+  async stop(): Promise<void> {
+    this.flushDeniedAudit()
+    if (!this.server) return
+    
+    return new Promise((resolve) => {
+      this.server!.close(() => {
+        this.logger.info('🛂 Admin API stopped')
+        resolve()
+      })
+    })
+  }
+  
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = req.method || 'GET'
+    const path = req.url || '/'
+    const url = new URL(path, 'http://admin')
+    const remoteAddress = req.socket.remoteAddress
+    
+    const route = this.routes.find(candidate => candidate.method === method && candidate.pattern.test(url.pathname))
+    const action = route?.action ?? `${method} ${url.pathname}`
+    const audit = (entry: Omit<AuditEntry, 'timestamp' | 'action' | 'remoteAddress'>) =>
+      this.audit.record({ action, ...entry, ...(remoteAddress && { remoteAddress }) })
+    const auditDenied = (entry: Omit<AuditEntry, 'timestamp' | 'action' | 'remoteAddress' | 'outcome'>) =>
+      this.recordDenied({ action, outcome: 'denied', ...entry, ...(remoteAddress && { remoteAddress }) })
+    
+    let body: string
+    try {
+      body = await this.readBody(req)
+    } catch (error) {
+      auditDenied({ admin: null, detail: String(error) })
+      this.sendJson(res, 413, { error: 'Request body too large' })
+      return
+    }
+    
+    const auth = this.authenticate(req, method, path, body)
+    if (auth.admin === null) {
+      auditDenied({ admin: auth.claimed, detail: auth.reason })
+      this.sendJson(res, 401, { error: 'Unauthorized', reason: auth.reason })
+      return
+    }
+    
+    if (!route) {
+      audit({ admin: auth.admin, outcome: 'error', detail: 'unknown endpoint' })
+      this.sendJson(res, 404, { error: 'Not found' })
+      return
+    }
+    
+    try {
+      const params = url.pathname.match(route.pattern)!.slice(1)
+      const result = await route.handle({ admin: auth.admin, params, query: url.searchParams })
+      audit({ admin: auth.admin, outcome: 'ok', ...(params.length > 0 && { detail: params.join(' ') }) })
+      this.sendJson(res, 200, result)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      audit({ admin: auth.admin, outcome: 'error', detail: message })
+      this.sendJson(res, 400, { error: message })
+    }
+  }
+  
+  // Verify X-Admin-Pubkey / X-Signature / X-Timestamp / X-Nonce over the NodeAuth message
+  private authenticate(
+    req: http.IncomingMessage,
+    method: string,
+    path: string,
+    body: string
+  ): { admin: string; claimed: string } | { admin: null; claimed: string | null; reason: string } {
+    const claimed = header(req, 'x-admin-pubkey')
+    const signature = header(req, 'x-signature')
+    const timestamp = header(req, 'x-timestamp')
+    const nonce = header(req, 'x-nonce')
+    
+    if (!claimed || !signature || !timestamp || !nonce) {
+      return { admin: null, claimed, reason: 'missing X-Admin-Pubkey, X-Signature, X-Timestamp or X-Nonce' }
+    }
+    if (header(req, 'x-auth-version') !== NODE_AUTH_VERSION) {
+      return { admin: null, claimed, reason: `unsupported auth version, expected ${NODE_AUTH_VERSION}` }
+    }
+    if (!/^[0-9a-f]{32}$/.test(nonce)) {
+      return { admin: null, claimed, reason: 'nonce must be 32 hex characters' }
+    }
+    if (!this.config.admin.authorizedKeys.includes(claimed)) {
+      return { admin: null, claimed, reason: 'key is not authorized' }
+    }
+    
+    const skewMs = this.config.admin.maxClockSkewSec * 1000
+    const sentAt = Number(timestamp)
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > skewMs) {
+      return { admin: null, claimed, reason: `timestamp is more than ${this.config.admin.maxClockSkewSec}s from server time` }
+    }
+    
+    // Buffer.from skips padding and stray characters, so only the one canonical encoding is accepted
+    const signatureBytes = Buffer.from(signature, 'base64')
+    if (signatureBytes.length !== sign.signatureLength || signatureBytes.toString('base64') !== signature) {
+      return { admin: null, claimed, reason: 'malformed signature' }
+    }
+    
+    const message = nodeAuthMessage({ host: req.headers.host ?? '', timestamp, nonce, method, path, body })
+    if (!sign.detached.verify(message, signatureBytes, new PublicKey(claimed).toBytes())) {
+      return { admin: null, claimed, reason: 'invalid signature' }
+    }
+    
+    // The nonce is signed, so a captured request can't be replayed, even with its signature
+    // re-encoded, while its timestamp is still acceptable
+    this.pruneSeenNonces()
+    const nonceKey = `${claimed}:${nonce}`
+    if (this.seenNonces.has(nonceKey)) {
+      return { admin: null, claimed, reason: 'replayed nonce' }
+    }
+    this.seenNonces.set(nonceKey, sentAt + skewMs)
+    
+    return { admin: claimed, claimed }
+  }
+  
+  private pruneSeenNonces(): void {
+    const now = Date.now()
+    for (const [nonceKey, expiresAt] of this.seenNonces) {
+      if (expiresAt < now) this.seenNonces.delete(nonceKey)
+    }
+  }
+  
+  private recordDenied(entry: Omit<AuditEntry, 'timestamp'>): void {
+    if (Date.now() - this.deniedAudit.windowStart >= DENIED_AUDIT_WINDOW_MS) {
+      this.flushDeniedAudit()
+      this.deniedAudit = { windowStart: Date.now(), recorded: 0, suppressed: 0 }
+    }
+    
+    if (this.deniedAudit.recorded < DENIED_AUDIT_LIMIT_PER_MINUTE) {
+      this.deniedAudit.recorded++
+      this.audit.record(entry)
+    } else {
+      this.deniedAudit.suppressed++
+    }
+  }
+  
+  private flushDeniedAudit(): void {
+    if (this.deniedAudit.suppressed === 0) return
+    
+    this.audit.record({
+      action: 'denied_requests',
+      admin: null,
+      outcome: 'denied',
+      detail: `${this.deniedAudit.suppressed} more refused requests not recorded individually`
+    })
+    this.deniedAudit.suppressed = 0
+  }
+  
+  private getStatus() {
+    const offers = this.controls.listOffers()
+    return {
+      intake: this.controls.getIntakeState(),
+      activeOffers: offers.length,
+      scheduledOffers: offers.filter(offer => offer.state === 'scheduled').length,
+      uptime: process.uptime()
+    }
+  }
+  
+  private changeIntake(change: () => void) {
+    change()
+    return { intake: this.controls.getIntakeState() }
+  }
+  
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = ''
+      req.on('data', (chunk: Buffer) => {
+        body += chunk.toString('utf-8')
+        if (body.length > MAX_BODY_BYTES) {
+          reject(new Error(`body exceeds ${MAX_BODY_BYTES} bytes`))
+          req.destroy()
+        }
+      })
+      req.on('end', () => resolve(body))
+      req.on('error', reject)
+    })
+  }
+  
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    if (res.destroyed) return
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body, null, 2))
+  }
+}
+
+function header(req: http.IncomingMessage, name: string): string | null {
+  const value = req.headers[name]
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
@@ -0,0 +1,35 @@
+import { AuditEntry } from '../types'
+import { Logger } from '../utils/Logger'
+import { appendJsonLine, getDataPath, readJsonLines } from '../utils/Storage'
+
+// Append-only record of every admin request, including ones refused at authentication
+export class AuditLog {
+  private logger = new Logger('AuditLog')
+  private filePath: string
+  
+  constructor(filePath = getDataPath('admin-audit.jsonl')) {
+    this.filePath = filePath
+  }
+  
+  record(entry: Omit<AuditEntry, 'timestamp'>): void {
+    const record: AuditEntry = { timestamp: Date.now(), ...entry }
+    try {
+      appendJsonLine(this.filePath, record)
+    } catch (error) {
+      // Losing an audit line must be loud, but shouldn't take the node down
+      this.logger.error(`Failed to write audit entry for ${entry.action}:`, error)
+    }
+    
+    const message = `🛂 Admin ${entry.action} by ${entry.admin ?? 'unknown'}: ${entry.outcome}${entry.detail ? ` (${entry.detail})` : ''}`
+    if (entry.outcome === 'ok') {
+      this.logger.info(message)
+    } else {
+      this.logger.warn(message)
+    }
+  }
+  
+  // Most recent entries, newest last
+  recent(limit: number): AuditEntry[] {
+    return readJsonLines<AuditEntry>(this.filePath).slice(-limit)
+  }
+}
@@ -0,0 +1,195 @@
+import { Keypair } from '@solana/web3.js'
+import { randomBytes } from 'crypto'
+import { sign } from 'tweetnacl'
+import { DispatcherClient } from './DispatcherClient'
+import { dispatcherMessage } from './DispatcherVerifier'
+import { MockDispatcher } from '../testing/MockDispatcher'
+import { LocalSigner } from '../signing/LocalSigner'
+import { reloadConfig } from '../utils/Config'
+import { NodeConfig, Offer } from '../types'
+
+// Auth headers of every request the client sends, in order
+function spyOnAuthHeaders(): Record<string, string>[] {
+  const sent: Record<string, string>[] = []
+  const realFetch = globalThis.fetch
+  jest.spyOn(globalThis, 'fetch').mockImplementation((input, init) => {
+    sent.push({ ...(init?.headers as Record<string, string>) })
+    return realFetch(input, init)
+  })
+  return sent
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition')
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+describe('DispatcherClient', () => {
+  const env = process.env
+  const nodeKeypair = Keypair.generate()
+  let mock: MockDispatcher
+  let clients: DispatcherClient[]
+  
+  // A fresh config pinning the mock's signing key
+  function configFor(dispatcher: MockDispatcher): NodeConfig {
+    process.env.SHH_DISPATCHER_SIGNING_KEYS = JSON.stringify([dispatcher.signingPublicKey])
+    return reloadConfig()
+  }
+  
+  function createClient(config: NodeConfig, dispatcher = mock): DispatcherClient {
+    const client = new DispatcherClient(dispatcher.url, new LocalSigner(nodeKeypair, [], null), config)
+    clients.push(client)
+    return client
+  }
+  
+  async function subscribe(client: DispatcherClient): Promise<string[]> {
+    const delivered: string[] = []
+    client.onOffer(offer => delivered.push(offer.id))
+    await client.subscribeToOffers()
+    return delivered
+  }
+  
+  beforeEach(async () => {
+    process.env = { ...env, LOG_LEVEL: 'error', OFFER_TRANSPORT: 'poll', OFFER_POLL_INTERVAL_MS: '25' }
+    clients = []
+    mock = new MockDispatcher({ port: 0 })
+    await mock.start()
+  })
+  
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.disconnect()))
+    jest.restoreAllMocks()
+    await mock.stop()
+    process.env = env
+  })
+  
+  describe('offer signatures', () => {
+    it('delivers only offers signed by a pinned dispatcher key', async () => {
+      // Signature bytes that were never produced by the dispatcher key
+      const forged = mock.addOffer({
+        dispatcherSignature: { signingKey: mock.signingPublicKey, signature: randomBytes(64).toString('base64') }
+      })
+      
+      // Validly signed, but by a key the node never pinned
+      const outsider = Keypair.generate()
+      const unpinnedPayload: Offer = {
+        id: 'unpinned-offer',
+        partId: 'unpinned-part',
+        asset: 'SOL',
+        amount: '10000000',
+        recipient: '11111111111111111111111111111111',
+        feeLamports: 50000,
+        expiresAt: Date.now() + 60000
+      }
+      const unpinned = mock.addOffer({
+        ...unpinnedPayload,
+        dispatcherSignature: {
+          signingKey: outsider.publicKey.toString(),
+          signature: Buffer.from(sign.detached(dispatcherMessage('offer', unpinnedPayload), outsider.secretKey)).toString('base64')
+        }
+      })
+      
+      // Signed by the dispatcher, then altered in transit
+      const tampered = mock.addOffer()
+      tampered.recipient = Keypair.generate().publicKey.toString()
+      
+      // Signature stripped entirely
+      const unsigned = mock.addOffer()
+      delete unsigned.dispatcherSignature
+      
+      const valid = mock.addOffer()
+      
+      const delivered = await subscribe(createClient(configFor(mock)))
+      await waitFor(() => delivered.includes(valid.id))
+      
+      expect(delivered).toEqual([valid.id])
+      expect(delivered).not.toContain(forged.id)
+      expect(delivered).not.toContain(unpinned.id)
+      expect(delivered).not.toContain(tampered.id)
+      expect(delivered).not.toContain(unsigned.id)
+    })
+    
+    it('delivers unsigned offers only when explicitly opted out and no key is pinned', async () => {
+      const unsigned = mock.addOffer()
+      delete unsigned.dispatcherSignature
+      const signed = mock.addOffer()
+      
+      const signedOnly = await subscribe(createClient(configFor(mock)))
+      await waitFor(() => signedOnly.includes(signed.id))
+      expect(signedOnly).not.toContain(unsigned.id)
+      
+      const optedOutConfig = configFor(mock)
+      optedOutConfig.dispatcher.signingKeys = []
+      optedOutConfig.dispatcher.insecureAllowUnsigned = true
+      const optedOut = await subscribe(createClient(optedOutConfig))
+      await waitFor(() => optedOut.length > 0)
+      expect(optedOut).toEqual([unsigned.id])
+    })
+  })
+  
+  describe('acknowledgments', () => {
+    it('accepts an offer the dispatcher acknowledged with a pinned key', async () => {
+      const offer = mock.addOffer()
+      const client = createClient(configFor(mock))
+      
+      const outcome = await client.acceptOffer({ offerId: offer.id, nodeId: nodeKeypair.publicKey.toString(), timestamp: Date.now() })
+      
+      expect(outcome).toBe('accepted')
+      expect(mock.acceptances).toHaveLength(1)
+    })
+    
+    it('reports an acknowledgment signed by an unpinned key as unverified', async () => {
+      const offer = mock.addOffer()
+      const config = configFor(mock)
+      config.dispatcher.signingKeys = [Keypair.generate().publicKey.toString()]
+      const client = createClient(config)
+      
+      const outcome = await client.acceptOffer({ offerId: offer.id, nodeId: nodeKeypair.publicKey.toString(), timestamp: Date.now() })
+      
+      expect(outcome).toBe('ack_unverified')
+    })
+  })
+  
+  describe('request authentication', () => {
+    it('signs every request with a fresh nonce', async () => {
+      const sent = spyOnAuthHeaders()
+      const client = createClient(configFor(mock))
+      
+      await client.connect()
+      await client.getOffers()
+      
+      expect(sent).toHaveLength(2)
+      expect(sent[0]!['X-Nonce']).toMatch(/^[0-9a-f]{32}$/)
+      expect(sent[0]!['X-Nonce']).not.toBe(sent[1]!['X-Nonce'])
+    })
+    
+    it('is rejected when a captured request is replayed', async () => {
+      const sent = spyOnAuthHeaders()
+      await createClient(configFor(mock)).connect()
+      jest.restoreAllMocks()
+      
+      const replayed = await fetch(`${mock.url}/api/node/ping`, { headers: sent[0]! })
+      
+      expect(replayed.status).toBe(401)
+      expect(mock.rejectedRequests).toEqual([{ path: '/api/node/ping', reason: 'Replayed nonce' }])
+    })
+    
+    it('corrects signed timestamps for a dispatcher clock running ahead', async () => {
+      const ahead = new MockDispatcher({ port: 0, clockOffsetMs: 120000 })
+      await ahead.start()
+      try {
+        const client = createClient(configFor(ahead), ahead)
+        
+        // Only the first ping, signed with the uncorrected clock, is refused
+        await client.connect()
+        await expect(client.getOffers()).resolves.toEqual([])
+        expect(ahead.rejectedRequests).toEqual([{ path: '/api/node/ping', reason: 'Timestamp outside allowed window' }])
+      } finally {
+        await ahead.stop()
+      }
+    })
+  })
+})
@@ -1,37 +1,110 @@
-import { Keypair } from '@solana/web3.js'
-import { sign } from 'tweetnacl'
-import { Offer, OfferAcceptance, ExecutionReceipt, HeartbeatData } from '../types'
+import { randomBytes } from 'crypto'
+import EventSource from 'eventsource'
+import WebSocket from 'ws'
+import { Offer, OfferAcceptance, ExecutionReceipt, HeartbeatData, NodeConfig, OfferTransport, OfferStreamMessage, PrivacyWarning, OfferDecline, CosignRequest, CosignResponse, DispatcherAckResponse, AcceptOutcome, ReceiptOutcome } from '../types'
 import { Logger } from '../utils/Logger'
+import { Metrics } from '../monitoring/Metrics'
+import { Signer } from '../signing/Signer'
+import { DispatcherVerifier } from './DispatcherVerifier'
+import { NODE_AUTH_VERSION, measureClockOffset, nodeAuthMessage } from './NodeAuth'
 
 export class DispatcherClient {
   private logger = new Logger('DispatcherClient')
   private baseUrl: string
-  private nodeKeypair: Keypair
+  private host: string
+  private signer: Signer
+  private config: NodeConfig
+  private metrics: Metrics | undefined
+  private verifier: DispatcherVerifier
   private offerCallback?: (offer: Offer) => void
   
-  constructor(baseUrl: string, nodeKeypair: Keypair) {
+  private transport: OfferTransport
+  private subscribed = false
+  private eventSource: EventSource | null = null
+  private webSocket: WebSocket | null = null
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private pollTimer: NodeJS.Timeout | null = null
+  private reconnectAttempts = 0
+  private polling = false
+  
+  // Dispatcher clock minus ours, added to every signed timestamp
+  private clockOffsetMs = 0
+  
+  // Resume cursor and de-duplication window for offers delivered across reconnects
+  private lastOfferId?: string
+  private seenOffers = new Map<string, number>()
+  private readonly MAX_SEEN_OFFERS = 10000
+  
+  // Offers that failed signature checks, so redeliveries by the poller are only warned about once;
+  // not remembered as seen, in case a key pinned by a later config reload makes them valid
+  private rejectedOffers = new Set<string>()
+  
+  constructor(baseUrl: string, signer: Signer, config: NodeConfig, metrics?: Metrics) {
     this.baseUrl = baseUrl.replace(/\/$/, '') // Remove trailing slash
-    this.nodeKeypair = nodeKeypair
+    this.host = new URL(this.baseUrl).host
+    this.signer = signer
+    this.config = config
+    this.metrics = metrics
+    this.verifier = new DispatcherVerifier(config)
+    this.transport = (process.env.OFFER_TRANSPORT as OfferTransport) || 'sse'
   }
   
   async connect(): Promise<void> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/node/ping`, {
-        method: 'GET',
-        headers: this.getAuthHeaders('GET', '/api/node/ping', '')
-      })
+      let response = await this.ping()
+      
+      // A skewed clock makes the first ping fail auth; retry once with the corrected timestamp
+      if (response.status === 401 && this.clockOffsetMs !== 0) {
+        response = await this.ping()
+      }
       
       if (!response.ok) {
         throw new Error(`Dispatcher ping failed: ${response.statusText}`)
       }
       
       this.logger.info(`📡 Connected to dispatcher: ${this.baseUrl}`)
+      if (!this.verifier.requiresSignatures) {
+        this.logger.warn('🚨 INSECURE: dispatcher.insecureAllowUnsigned is set and no dispatcher keys are pinned, offers are trusted as delivered')
+      }
     } catch (error) {
       throw new Error(`Failed to connect to dispatcher: ${error}`)
     }
   }
   
+  private async ping(): Promise<Response> {
+    const headers = await this.getAuthHeaders('GET', '/api/node/ping', '')
+    const sentAt = Date.now()
+    const response = await this.request('/api/node/ping', { method: 'GET', headers })
+    
+    this.updateClockOffset(measureClockOffset(response.headers.get('date'), sentAt, Date.now()))
+    return response
+  }
+  
+  private updateClockOffset(offsetMs: number | null): void {
+    if (offsetMs === null) {
+      this.logger.warn('Dispatcher sent no Date header, clock skew is unknown')
+      return
+    }
+    
+    this.metrics?.recordDispatcherClockOffset(offsetMs)
+    if (Math.abs(offsetMs) > this.config.dispatcher.maxClockSkewSec * 1000) {
+      this.logger.warn(`⏰ Local clock is ${(Math.abs(offsetMs) / 1000).toFixed(1)}s ${offsetMs > 0 ? 'behind' : 'ahead of'} the dispatcher, correcting signed timestamps; check NTP on this host`)
+    }
+    
+    // Within a second the Date header can't tell real skew from its own rounding
+    this.clockOffsetMs = Math.abs(offsetMs) >= 1000 ? offsetMs : 0
+  }
+  
   async disconnect(): Promise<void> {
+    this.subscribed = false
+    this.closeStream()
+    this.stopPolling()
+    
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    
     this.logger.info('📡 Disconnected from dispatcher')
   }
   
@@ -40,83 +113,274 @@ export class DispatcherClient {
   }
   
   async subscribeToOffers(): Promise<void> {
-    // For MVP, we'll poll for offers instead of using WebSocket/SSE
-    // In Phase 2, this would be a real-time subscription
-    this.logger.info('🎯 Starting offer polling...')
-    this.pollOffers()
+    this.subscribed = true
+    
+    if (this.transport === 'poll') {
+      this.logger.info('🎯 Starting offer polling...')
+      this.startPolling()
+      return
+    }
+    
+    this.logger.info(`🎯 Opening ${this.transport.toUpperCase()} offer stream...`)
+    this.openStream()
+  }
+  
+  private async openStream(): Promise<void> {
+    if (!this.subscribed) return
+    
+    const path = this.withCursor(
+      this.transport === 'websocket' ? '/api/node/offers/ws' : '/api/node/offers/stream'
+    )
+    
+    try {
+      if (this.transport === 'websocket') {
+        await this.openWebSocket(path)
+      } else {
+        await this.openEventSource(path)
+      }
+    } catch (error) {
+      this.handleStreamFailure(error)
+    }
+  }
+  
+  private async openEventSource(path: string): Promise<void> {
+    const headers: Record<string, string> = await this.getAuthHeaders('GET', path, '')
+    if (!this.subscribed) return
+    if (this.lastOfferId) {
+      headers['Last-Event-ID'] = this.lastOfferId
+    }
+    
+    const eventSource = new EventSource(`${this.baseUrl}${path}`, { headers })
+    this.eventSource = eventSource
+    
+    eventSource.onopen = () => this.handleStreamOpen()
+    eventSource.onerror = (event) => this.handleStreamFailure(
+      'message' in event && typeof event.message === 'string' && event.message ? event.message : 'SSE connection error'
+    )
+    
+    const onData = (event: MessageEvent) => {
+      try {
+        this.deliverOffer(JSON.parse(event.data) as Offer)
+      } catch (error) {
+        this.logger.warn('Ignoring malformed SSE offer event:', error)
+      }
+    }
+    eventSource.addEventListener('offer', onData)
+    eventSource.onmessage = onData
   }
   
-  private async pollOffers(): Promise<void> {
+  private async openWebSocket(path: string): Promise<void> {
+    const url = `${this.baseUrl.replace(/^http/, 'ws')}${path}`
+    const headers = await this.getAuthHeaders('GET', path, '')
+    if (!this.subscribed) return
+    
+    const webSocket = new WebSocket(url, { headers })
+    this.webSocket = webSocket
+    
+    webSocket.on('open', () => this.handleStreamOpen())
+    webSocket.on('error', (error) => this.handleStreamFailure(error))
+    webSocket.on('close', (code) => this.handleStreamFailure(`WebSocket closed (${code})`))
+    webSocket.on('message', (data) => {
+      try {
+        const message = JSON.parse(data.toString()) as OfferStreamMessage
+        if (message.type === 'offer' && message.offer) {
+          this.deliverOffer(message.offer)
+        }
+      } catch (error) {
+        this.logger.warn('Ignoring malformed WebSocket message:', error)
+      }
+    })
+  }
+  
+  private handleStreamOpen(): void {
+    this.logger.info(`📡 Offer stream open (${this.transport})`)
+    this.reconnectAttempts = 0
+    this.stopPolling()
+  }
+  
+  private handleStreamFailure(error: unknown): void {
+    // Both the error and close handlers can fire for a single failure
+    if (!this.eventSource && !this.webSocket && this.reconnectTimer) return
+    
+    this.closeStream()
+    if (!this.subscribed) return
+    
+    this.metrics?.recordDispatcherError('stream', 'network')
+    this.reconnectAttempts++
+    const delay = this.getBackoffDelay(this.reconnectAttempts)
+    this.logger.warn(`Offer stream failed (attempt ${this.reconnectAttempts}), reconnecting in ${delay}ms:`, error)
+    
+    // Keep offers flowing while the stream is down
+    if (this.reconnectAttempts >= this.config.node.retry.max && !this.polling) {
+      this.logger.warn('📉 Streaming unavailable, falling back to polling')
+      this.startPolling()
+    }
+    
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+    }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.openStream()
+    }, delay)
+  }
+  
+  private closeStream(): void {
+    if (this.eventSource) {
+      this.eventSource.close()
+      this.eventSource = null
+    }
+    
+    if (this.webSocket) {
+      const webSocket = this.webSocket
+      this.webSocket = null
+      webSocket.removeAllListeners()
+      webSocket.on('error', () => {}) // Swallow errors raised while terminating
+      webSocket.terminate()
+    }
+  }
+  
+  private getBackoffDelay(attempt: number): number {
+    const { backoffMs, maxBackoffMs } = this.config.node.retry
+    const exponential = Math.min(backoffMs * 2 ** (attempt - 1), maxBackoffMs)
+    
+    // Add up to 20% jitter so a fleet of nodes doesn't reconnect in lockstep
+    return Math.round(exponential * (1 + Math.random() * 0.2))
+  }
+  
+  private startPolling(): void {
+    if (this.polling) return
+    this.polling = true
+    
     const pollInterval = parseInt(process.env.OFFER_POLL_INTERVAL_MS || '5000')
     
     const poll = async () => {
+      if (!this.polling) return
+      
       try {
-        // This endpoint doesn't exist yet - it's for Phase 2
-        // For now, just log that we're polling
         this.logger.debug('🔍 Polling for offers...')
-        
-        // In Phase 2, this would be:
-        // const offers = await this.getOffers()
-        // offers.forEach(offer => this.offerCallback?.(offer))
-        
+        const offers = await this.getOffers(this.lastOfferId)
+        offers.forEach(offer => this.deliverOffer(offer))
       } catch (error) {
         this.logger.warn('Failed to poll offers:', error)
       }
       
       // Schedule next poll
-      setTimeout(poll, pollInterval)
+      if (this.polling) {
+        this.pollTimer = setTimeout(poll, pollInterval)
+      }
     }
     
     // Start polling
-    setTimeout(poll, pollInterval)
+    this.pollTimer = setTimeout(poll, 0)
   }
   
-  async getOffers(): Promise<Offer[]> {
-    const response = await fetch(`${this.baseUrl}/api/node/offers`, {
+  private stopPolling(): void {
+    this.polling = false
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer)
+      this.pollTimer = null
+    }
+  }
+  
+  private deliverOffer(offer: Offer): void {
+    if (!offer?.id) {
+      this.logger.warn('Ignoring offer without an id')
+      return
+    }
+    
+    // A forged offer must not move the resume cursor past real ones
+    const check = this.verifier.verifyOffer(offer)
+    if (!check.allowed) {
+      if (this.rejectedOffers.has(offer.id)) {
+        this.logger.debug(`Rejected offer ${offer.id} again: ${check.reason}`)
+        return
+      }
+      if (this.rejectedOffers.size >= this.MAX_SEEN_OFFERS) {
+        this.rejectedOffers.clear()
+      }
+      this.rejectedOffers.add(offer.id)
+      this.metrics?.recordDispatcherError('offers', 'bad_signature')
+      this.logger.warn(`🚫 Rejected offer ${offer.id}: ${check.reason}`)
+      return
+    }
+    
+    this.lastOfferId = offer.id
+    
+    if (this.seenOffers.has(offer.id)) {
+      this.logger.debug(`Skipping duplicate offer ${offer.id}`)
+      return
+    }
+    
+    this.rememberOffer(offer.id)
+    this.offerCallback?.(offer)
+  }
+  
+  private rememberOffer(offerId: string): void {
+    const now = Date.now()
+    this.seenOffers.set(offerId, now)
+    
+    // Offers older than the offer timeout can no longer be redelivered as valid work
+    const cutoff = now - this.config.node.timeout.offerTimeoutMs
+    for (const [id, seenAt] of this.seenOffers) {
+      if (seenAt >= cutoff && this.seenOffers.size <= this.MAX_SEEN_OFFERS) break
+      this.seenOffers.delete(id)
+    }
+  }
+  
+  private withCursor(path: string): string {
+    return this.lastOfferId ? `${path}?since=${encodeURIComponent(this.lastOfferId)}` : path
+  }
+  
+  async getOffers(since?: string): Promise<Offer[]> {
+    const path = since ? `/api/node/offers?since=${encodeURIComponent(since)}` : '/api/node/offers'
+    
+    const response = await this.request(path, {
       method: 'GET',
-      headers: this.getAuthHeaders('GET', '/api/node/offers', '')
+      headers: await this.getAuthHeaders('GET', path, '')
     })
     
     if (!response.ok) {
       throw new Error(`Failed to get offers: ${response.statusText}`)
     }
     
-    const data = await response.json()
+    const data = await response.json() as { offers?: Offer[] }
     return data.offers || []
   }
   
-  async acceptOffer(acceptance: OfferAcceptance): Promise<boolean> {
+  async acceptOffer(acceptance: OfferAcceptance): Promise<AcceptOutcome> {
     const body = JSON.stringify(acceptance)
     
-    const response = await fetch(`${this.baseUrl}/api/node/accept`, {
+    const response = await this.request('/api/node/accept', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...this.getAuthHeaders('POST', '/api/node/accept', body)
+        ...(await this.getAuthHeaders('POST', '/api/node/accept', body))
       },
       body
     })
     
     if (response.status === 409) {
       // Offer was already accepted by another node
-      return false
+      return 'claimed'
     }
     
     if (!response.ok) {
       throw new Error(`Failed to accept offer: ${response.statusText}`)
     }
     
-    return true
+    const verified = await this.verifyAck(response, { type: 'accept', nodeId: acceptance.nodeId, offerId: acceptance.offerId })
+    return verified ? 'accepted' : 'ack_unverified'
   }
   
-  async submitReceipt(receipt: ExecutionReceipt): Promise<void> {
+  async submitReceipt(receipt: ExecutionReceipt): Promise<ReceiptOutcome> {
     const body = JSON.stringify(receipt)
     
-    const response = await fetch(`${this.baseUrl}/api/node/receipt`, {
+    const response = await this.request('/api/node/receipt', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...this.getAuthHeaders('POST', '/api/node/receipt', body)
+        ...(await this.getAuthHeaders('POST', '/api/node/receipt', body))
       },
       body
     })
@@ -124,16 +388,24 @@ export class DispatcherClient {
     if (!response.ok) {
       throw new Error(`Failed to submit receipt: ${response.statusText}`)
     }
+    
+    const verified = await this.verifyAck(response, {
+      type: 'receipt',
+      nodeId: this.signer.nodePublicKey.toString(),
+      partId: receipt.partId,
+      txSignature: receipt.txSignature
+    })
+    return verified ? 'acknowledged' : 'ack_unverified'
   }
   
   async sendHeartbeat(heartbeat: HeartbeatData): Promise<void> {
     const body = JSON.stringify(heartbeat)
     
-    const response = await fetch(`${this.baseUrl}/api/node/heartbeat`, {
+    const response = await this.request('/api/node/heartbeat', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...this.getAuthHeaders('POST', '/api/node/heartbeat', body)
+        ...(await this.getAuthHeaders('POST', '/api/node/heartbeat', body))
       },
       body
     })
@@ -143,18 +415,117 @@ export class DispatcherClient {
     }
   }
   
-  private getAuthHeaders(method: string, path: string, body: string): Record<string, string> {
-    const timestamp = Date.now()
-    const message = `${timestamp}${method}${path}${body}`
-    const messageBytes = new TextEncoder().encode(message)
+  async getFeeSponsor(): Promise<string> {
+    const response = await this.request('/api/node/sponsor', {
+      method: 'GET',
+      headers: await this.getAuthHeaders('GET', '/api/node/sponsor', '')
+    })
+    
+    if (!response.ok) {
+      throw new Error(`Failed to get fee sponsor: ${response.statusText}`)
+    }
+    
+    const data = await response.json() as { feePayer: string }
+    return data.feePayer
+  }
+  
+  async cosignTransaction(offerId: string, transaction: string): Promise<string> {
+    const request: CosignRequest = { offerId, transaction }
+    const body = JSON.stringify(request)
+    
+    const response = await this.request('/api/node/cosign', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await this.getAuthHeaders('POST', '/api/node/cosign', body))
+      },
+      body
+    })
+    
+    if (!response.ok) {
+      throw new Error(`Failed to co-sign transaction: ${response.statusText}`)
+    }
+    
+    const data = await response.json() as CosignResponse
+    return data.transaction
+  }
+  
+  async reportPrivacyWarning(warning: PrivacyWarning): Promise<void> {
+    const body = JSON.stringify(warning)
+    
+    const response = await this.request('/api/node/privacy-warning', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await this.getAuthHeaders('POST', '/api/node/privacy-warning', body))
+      },
+      body
+    })
+    
+    if (!response.ok) {
+      throw new Error(`Failed to report privacy warning: ${response.statusText}`)
+    }
+  }
+  
+  async reportDecline(decline: OfferDecline): Promise<void> {
+    const body = JSON.stringify(decline)
+    
+    const response = await this.request('/api/node/decline', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await this.getAuthHeaders('POST', '/api/node/decline', body))
+      },
+      body
+    })
+    
+    if (!response.ok) {
+      throw new Error(`Failed to report offer decline: ${response.statusText}`)
+    }
+  }
+  
+  // Whether the dispatcher signed an acknowledgment of exactly what was submitted
+  private async verifyAck(response: Response, expected: Parameters<DispatcherVerifier['verifyAck']>[1]): Promise<boolean> {
+    const data = await response.json().catch(() => ({})) as DispatcherAckResponse
+    const check = this.verifier.verifyAck(data, expected)
+    if (!check.allowed) {
+      this.metrics?.recordDispatcherError(`/api/node/${expected.type}`, 'bad_signature')
+      this.logger.error(`🚫 Dispatcher ${expected.type} acknowledgment rejected: ${check.reason}`)
+    }
+    return check.allowed
+  }
+  
+  // fetch against the dispatcher, counting network failures and error statuses per endpoint
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const endpoint = path.split('?')[0]!
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, init)
+      if (!response.ok) {
+        this.metrics?.recordDispatcherError(endpoint, String(response.status))
+      }
+      return response
+    } catch (error) {
+      this.metrics?.recordDispatcherError(endpoint, 'network')
+      throw error
+    }
+  }
+  
+  // Signs the dispatcher host and a fresh nonce along with the request, so a captured request
+  // can't be replayed, nor sent to another dispatcher
+  private async getAuthHeaders(method: string, path: string, body: string): Promise<Record<string, string>> {
+    const timestamp = (Date.now() + this.clockOffsetMs).toString()
+    const nonce = randomBytes(16).toString('hex')
+    const message = nodeAuthMessage({ host: this.host, timestamp, nonce, method, path, body })
     
-    const signature = sign.detached(messageBytes, this.nodeKeypair.secretKey)
+    const signature = await this.signer.signMessage(message)
     const signatureBase64 = Buffer.from(signature).toString('base64')
     
     return {
-      'X-Node-Pubkey': this.nodeKeypair.publicKey.toString(),
+      'X-Node-Pubkey': this.signer.nodePublicKey.toString(),
       'X-Signature': signatureBase64,
-      'X-Timestamp': timestamp.toString()
+      'X-Timestamp': timestamp,
+      'X-Nonce': nonce,
+      'X-Auth-Version': NODE_AUTH_VERSION
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { PublicKey } from '@solana/web3.js'
+import { sign } from 'tweetnacl'
+import { DispatcherAck, DispatcherAckResponse, DispatcherSignature, NodeConfig, Offer } from '../types'
+
+export interface DispatcherCheck {
+  allowed: boolean
+  reason?: string
+}
+
+export type DispatcherPayloadKind = 'offer' | 'ack'
+
+// JSON with object keys sorted at every level, so both sides serialize a payload identically
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// The bytes the dispatcher signs; the kind prefix keeps an offer signature from passing as an ack
+export function dispatcherMessage(kind: DispatcherPayloadKind, payload: object): Uint8Array {
+  return new TextEncoder().encode(`shh-dispatcher:${kind}:${canonicalJson(payload)}`)
+}
+
+// Checks dispatcher signatures against the pinned key set in config.dispatcher, read on every
+// call so keys rotated in with a config reload apply straight away
+export class DispatcherVerifier {
+  private config: NodeConfig
+  
+  constructor(config: NodeConfig) {
+    this.config = config
+  }
+  
+  // Pinned keys always mean signatures are required; unsigned traffic needs the explicit opt-out
+  get requiresSignatures(): boolean {
+    const { signingKeys, insecureAllowUnsigned } = this.config.dispatcher
+    return signingKeys.length > 0 || !insecureAllowUnsigned
+  }
+  
+  verifyOffer(offer: Offer): DispatcherCheck {
+    const { dispatcherSignature, ...payload } = offer
+    return this.verify('offer', payload, dispatcherSignature)
+  }
+  
+  // An acknowledgment must be signed and must confirm exactly what this node submitted
+  verifyAck(response: DispatcherAckResponse, expected: Omit<DispatcherAck, 'timestamp'>): DispatcherCheck {
+    if (!response.ack) {
+      return this.requiresSignatures ? { allowed: false, reason: 'no acknowledgment in response' } : { allowed: true }
+    }
+    
+    const ack = response.ack
+    for (const [field, value] of Object.entries(expected)) {
+      if (ack[field as keyof DispatcherAck] !== value) {
+        return { allowed: false, reason: `acknowledgment ${field} does not match` }
+      }
+    }
+    
+    return this.verify('ack', ack, response.dispatcherSignature)
+  }
+  
+  private verify(kind: DispatcherPayloadKind, payload: object, dispatcherSignature: DispatcherSignature | undefined): DispatcherCheck {
+    if (!dispatcherSignature) {
+      return this.requiresSignatures ? { allowed: false, reason: `unsigned ${kind}` } : { allowed: true }
+    }
+    
+    const { signingKey, signature } = dispatcherSignature
+    if (!this.config.dispatcher.signingKeys.includes(signingKey)) {
+      return { allowed: false, reason: `${kind} signed by unpinned key ${signingKey}` }
+    }
+    
+    try {
+      const valid = sign.detached.verify(
+        dispatcherMessage(kind, payload),
+        Buffer.from(signature, 'base64'),
+        new PublicKey(signingKey).toBytes()
+      )
+      return valid ? { allowed: true } : { allowed: false, reason: `invalid ${kind} signature` }
+    } catch {
+      return { allowed: false, reason: `malformed ${kind} signature` }
+    }
+  }
+}
@@ -0,0 +1,36 @@
+// Request authentication shared by DispatcherClient, MockDispatcher and the admin API
+
+export const NODE_AUTH_VERSION = '2'
+
+export interface NodeAuthFields {
+  host: string
+  timestamp: string
+  nonce: string
+  method: string
+  path: string
+  body: string
+}
+
+// One field per line with the body last, so no field can run into the next; stays plain text,
+// which is all the signing daemon signs with the node key
+export function nodeAuthMessage(fields: NodeAuthFields): Uint8Array {
+  return new TextEncoder().encode([
+    `shh-node-auth:v${NODE_AUTH_VERSION}`,
+    fields.host,
+    fields.timestamp,
+    fields.nonce,
+    fields.method,
+    fields.path,
+    fields.body
+  ].join('\n'))
+}
+
+// Offset of the dispatcher clock from ours, from a response Date header (whole seconds) and the
+// local send and receive times; null when the header is missing or unparseable
+export function measureClockOffset(dateHeader: string | null, sentAt: number, receivedAt: number): number | null {
+  const serverTime = dateHeader ? Date.parse(dateHeader) : NaN
+  if (Number.isNaN(serverTime)) return null
+  
+  // Date truncates to the second, so the server was on average half a second further along
+  return serverTime + 500 - Math.round((sentAt + receivedAt) / 2)
+}
@@ -0,0 +1,180 @@
+import {
+  EarningsReconciliation,
+  EarningsRecord,
+  EarningsSummaryRow,
+  ExecutionReceipt,
+  Offer,
+  PayoutRecord
+} from '../types'
+import { Logger } from '../utils/Logger'
+import { appendJsonLine, getDataPath, readJsonFile, readJsonLines, writeJsonFileAtomic } from '../utils/Storage'
+
+export interface TimeRange {
+  from?: number
+  to?: number
+}
+
+// Payouts seen per payout address, with the newest scanned signature to resume from
+type PayoutState = Record<string, { lastSignature: string | null; payouts: PayoutRecord[] }>
+
+export function utcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10)
+}
+
+function inRange(timestamp: number, range: TimeRange): boolean {
+  return (range.from === undefined || timestamp >= range.from) && (range.to === undefined || timestamp < range.to)
+}
+
+// Permanent record of what each confirmed part earned and cost, and of payouts received for them
+export class EarningsLedger {
+  private logger = new Logger('EarningsLedger')
+  private filePath: string
+  private payoutsPath: string
+  private records: EarningsRecord[] = []
+  private recordedOffers = new Set<string>()
+  private payoutState: PayoutState = {}
+  
+  constructor(filePath = getDataPath('earnings-ledger.jsonl'), payoutsPath = getDataPath('payouts.json')) {
+    this.filePath = filePath
+    this.payoutsPath = payoutsPath
+  }
+  
+  load(): void {
+    this.records = readJsonLines<EarningsRecord>(this.filePath)
+    this.recordedOffers = new Set(this.records.map(record => record.offerId))
+    this.payoutState = readJsonFile<PayoutState>(this.payoutsPath, {})
+    
+    const netLamports = this.records.reduce((total, record) => total + record.netLamports, 0)
+    this.logger.info(`📒 Earnings ledger loaded: ${this.records.length} parts, ${netLamports} lamports net`)
+  }
+  
+  // Book a confirmed part; a part already booked (e.g. again during recovery) is ignored
+  record(offer: Offer, receipt: ExecutionReceipt, relayWallet: string): EarningsRecord | null {
+    if (!receipt.success || this.recordedOffers.has(offer.id)) {
+      return null
+    }
+    
+    // Sponsored fees are paid by the dispatcher; rent for a recipient's token account is always ours
+    const feePayerMode = receipt.feePayerMode ?? 'relay'
+    const networkFeeLamports = feePayerMode === 'sponsored' ? 0 : receipt.networkFeeLamports ?? receipt.feePaid
+    const rentLamports = receipt.rentLamports ?? 0
+    const costLamports = networkFeeLamports + rentLamports
+    
+    const record: EarningsRecord = {
+      offerId: offer.id,
+      partId: offer.partId,
+      ...(offer.metadata && { requestId: offer.metadata.requestId }),
+      asset: offer.asset,
+      amount: offer.amount,
+      relayWallet,
+      txSignature: receipt.txSignature,
+      completedAt: receipt.blockTime ? receipt.blockTime * 1000 : receipt.timestamp,
+      feePayerMode,
+      feeLamports: offer.feeLamports,
+      networkFeeLamports,
+      rentLamports,
+      costLamports,
+      netLamports: offer.feeLamports - costLamports,
+      exactCosts: receipt.networkFeeLamports !== undefined
+    }
+    
+    appendJsonLine(this.filePath, record)
+    this.records.push(record)
+    this.recordedOffers.add(offer.id)
+    
+    this.logger.info(`💵 Booked ${offer.id}: ${record.feeLamports} fee - ${costLamports} cost = ${record.netLamports} lamports net`)
+    return record
+  }
+  
+  getPayoutAddresses(): string[] {
+    return Object.keys(this.payoutState)
+  }
+  
+  getPayoutCursor(payoutAddress: string): string | null {
+    return this.payoutState[payoutAddress]?.lastSignature ?? null
+  }
+  
+  recordPayouts(payoutAddress: string, payouts: PayoutRecord[], lastSignature: string | null): void {
+    const state = this.payoutState[payoutAddress] ?? { lastSignature: null, payouts: [] }
+    const known = new Set(state.payouts.map(payout => payout.signature))
+    
+    state.payouts.push(...payouts.filter(payout => !known.has(payout.signature)))
+    state.payouts.sort((a, b) => a.receivedAt - b.receivedAt)
+    state.lastSignature = lastSignature ?? state.lastSignature
+    
+    this.payoutState[payoutAddress] = state
+    writeJsonFileAtomic(this.payoutsPath, this.payoutState)
+  }
+  
+  getRecords(range: TimeRange = {}): EarningsRecord[] {
+    return this.records.filter(record => inRange(record.completedAt, range))
+  }
+  
+  getPayouts(payoutAddress: string, range: TimeRange = {}): PayoutRecord[] {
+    return (this.payoutState[payoutAddress]?.payouts ?? []).filter(payout => inRange(payout.receivedAt, range))
+  }
+  
+  // The earliest part booked, where a first payout scan can stop looking back
+  getFirstRecordAt(): number | null {
+    return this.records.reduce<number | null>((first, record) => first === null ? record.completedAt : Math.min(first, record.completedAt), null)
+  }
+  
+  getTotalFeeLamports(): number {
+    return this.records.reduce((total, record) => total + record.feeLamports, 0)
+  }
+  
+  summarize(groupBy: 'day' | 'wallet', range: TimeRange = {}): EarningsSummaryRow[] {
+    const rows = new Map<string, EarningsSummaryRow>()
+    
+    for (const record of this.getRecords(range)) {
+      const key = groupBy === 'day' ? utcDay(record.completedAt) : record.relayWallet
+      const row = rows.get(key) ?? { key, parts: 0, feeLamports: 0, costLamports: 0, netLamports: 0 }
+      row.parts++
+      row.feeLamports += record.feeLamports
+      row.costLamports += record.costLamports
+      row.netLamports += record.netLamports
+      rows.set(key, row)
+    }
+    
+    return Array.from(rows.values()).sort((a, b) => a.key.localeCompare(b.key))
+  }
+  
+  // Fees earned against payouts received, overall and as a running balance per UTC day.
+  // Payouts are batched by the dispatcher, so they are matched in aggregate rather than per part
+  reconcile(payoutAddress: string, range: TimeRange = {}): EarningsReconciliation {
+    const records = this.getRecords(range)
+    const payouts = this.getPayouts(payoutAddress, range)
+    
+    const earnedByDay = new Map<string, number>()
+    const paidByDay = new Map<string, number>()
+    for (const record of records) {
+      const day = utcDay(record.completedAt)
+      earnedByDay.set(day, (earnedByDay.get(day) ?? 0) + record.feeLamports)
+    }
+    for (const payout of payouts) {
+      const day = utcDay(payout.receivedAt)
+      paidByDay.set(day, (paidByDay.get(day) ?? 0) + payout.lamports)
+    }
+    
+    let outstanding = 0
+    const days = Array.from(new Set([...earnedByDay.keys(), ...paidByDay.keys()])).sort().map(day => {
+      const earnedLamports = earnedByDay.get(day) ?? 0
+      const paidLamports = paidByDay.get(day) ?? 0
+      outstanding += earnedLamports - paidLamports
+      return { day, earnedLamports, paidLamports, outstandingLamports: outstanding }
+    })
+    
+    const expectedLamports = records.reduce((total, record) => total + record.feeLamports, 0)
+    const receivedLamports = payouts.reduce((total, payout) => total + payout.lamports, 0)
+    
+    return {
+      payoutAddress,
+      expectedLamports,
+      receivedLamports,
+      outstandingLamports: expectedLamports - receivedLamports,
+      payouts: payouts.length,
+      lastPayoutAt: payouts.length > 0 ? payouts[payouts.length - 1]!.receivedAt : null,
+      days
+    }
+  }
+}
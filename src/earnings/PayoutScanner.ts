@@ -0,0 +1,118 @@
+import { ConfirmedSignatureInfo, Connection, PublicKey } from '@solana/web3.js'
+import { PayoutRecord } from '../types'
+import { Logger } from '../utils/Logger'
+import { EarningsLedger } from './EarningsLedger'
+
+const SIGNATURES_PER_PAGE = 1000
+
+// Bounds one sync against a busy payout address; anything older than that is skipped with a warning
+const MAX_PAGES_PER_SYNC = 50
+
+// How far before the first booked part a first-ever scan looks for payouts
+const FIRST_SCAN_LOOKBACK_MS = 24 * 60 * 60 * 1000
+
+// Finds SOL credited to the payout address by anyone other than this node's own wallets
+export class PayoutScanner {
+  private logger = new Logger('PayoutScanner')
+  private connection: Connection
+  private ledger: EarningsLedger
+  private payoutAddress: PublicKey
+  private ownWallets: Set<string>
+  
+  constructor(connection: Connection, ledger: EarningsLedger, payoutAddress: PublicKey, ownWallets: PublicKey[]) {
+    this.connection = connection
+    this.ledger = ledger
+    this.payoutAddress = payoutAddress
+    this.ownWallets = new Set(ownWallets.map(wallet => wallet.toString()))
+  }
+  
+  getPayoutAddress(): string {
+    return this.payoutAddress.toString()
+  }
+  
+  // Scan transactions newer than the last sync; returns the number of payouts found
+  async sync(): Promise<number> {
+    const address = this.payoutAddress.toString()
+    const cursor = this.ledger.getPayoutCursor(address)
+    const firstRecordAt = this.ledger.getFirstRecordAt()
+    const floorMs = cursor ? null : (firstRecordAt ?? Date.now()) - FIRST_SCAN_LOOKBACK_MS
+    
+    // Newest first, back to the cursor (or the lookback floor on the first scan)
+    const signatures: ConfirmedSignatureInfo[] = []
+    let before: string | undefined
+    for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+      const batch = await this.connection.getSignaturesForAddress(this.payoutAddress, {
+        limit: SIGNATURES_PER_PAGE,
+        ...(cursor && { until: cursor }),
+        ...(before && { before })
+      }, 'confirmed')
+      
+      const inWindow = floorMs === null ? batch : batch.filter(info => (info.blockTime ?? 0) * 1000 >= floorMs)
+      signatures.push(...inWindow)
+      if (batch.length < SIGNATURES_PER_PAGE || inWindow.length < batch.length) break
+      before = batch[batch.length - 1]!.signature
+      
+      if (page === MAX_PAGES_PER_SYNC - 1) {
+        this.logger.warn(`⚠️  More than ${MAX_PAGES_PER_SYNC * SIGNATURES_PER_PAGE} new transactions on ${address}, older ones were not scanned for payouts`)
+      }
+    }
+    
+    if (signatures.length === 0) return 0
+    
+    // Oldest first, so a failure part-way leaves the cursor on the last transaction handled
+    const payouts: PayoutRecord[] = []
+    let lastSignature: string | null = null
+    try {
+      for (const info of signatures.reverse()) {
+        if (!info.err) {
+          const payout = await this.readPayout(info)
+          if (payout) payouts.push(payout)
+        }
+        lastSignature = info.signature
+      }
+    } finally {
+      this.ledger.recordPayouts(address, payouts, lastSignature)
+    }
+    
+    for (const payout of payouts) {
+      this.logger.info(`💸 Payout of ${payout.lamports} lamports from ${payout.from} (${payout.signature})`)
+    }
+    return payouts.length
+  }
+  
+  private async readPayout(info: ConfirmedSignatureInfo): Promise<PayoutRecord | null> {
+    const transaction = await this.connection.getTransaction(info.signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    })
+    if (!transaction?.meta) {
+      throw new Error(`Transaction ${info.signature} is not available yet`)
+    }
+    
+    const { meta, slot, blockTime } = transaction
+    const message = transaction.transaction.message
+    const accountKeys = message.getAccountKeys({
+      ...(meta.loadedAddresses && { accountKeysFromLookups: meta.loadedAddresses })
+    })
+    
+    // Moving funds between our own wallets is not a payout
+    const signers = accountKeys.staticAccountKeys.slice(0, message.header.numRequiredSignatures)
+    if (signers.some(signer => this.ownWallets.has(signer.toString()))) {
+      return null
+    }
+    
+    const index = accountKeys.staticAccountKeys.findIndex(key => key.equals(this.payoutAddress))
+    if (index < 0) return null
+    
+    const lamports = (meta.postBalances[index] ?? 0) - (meta.preBalances[index] ?? 0)
+    if (lamports <= 0) return null
+    
+    return {
+      signature: info.signature,
+      slot,
+      receivedAt: (blockTime ?? info.blockTime ?? Math.floor(Date.now() / 1000)) * 1000,
+      lamports,
+      from: signers[0]?.toString() ?? 'unknown'
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { PublicKey, Transaction } from '@solana/web3.js'
+import { DispatcherClient } from '../api/DispatcherClient'
+import { WalletManager } from '../wallet/WalletManager'
+import { FeePayerMode, Offer } from '../types'
+
+export interface FeePayer {
+  readonly mode: FeePayerMode
+  getFeePayer(relayWallet: PublicKey): Promise<PublicKey>
+  getSigners(relayWallet: PublicKey): PublicKey[]
+  finalize(transaction: Transaction, offer: Offer): Promise<Transaction>
+}
+
+// Legacy mode: the relay wallet pays its own fees
+export class RelayFeePayer implements FeePayer {
+  readonly mode = 'relay' as const
+  
+  async getFeePayer(relayWallet: PublicKey): Promise<PublicKey> {
+    return relayWallet
+  }
+  
+  getSigners(relayWallet: PublicKey): PublicKey[] {
+    return [relayWallet]
+  }
+  
+  async finalize(transaction: Transaction): Promise<Transaction> {
+    return transaction
+  }
+}
+
+// A dedicated operator-funded key pays fees for every relay wallet
+export class SelfFeePayer implements FeePayer {
+  readonly mode = 'self' as const
+  private feePayer: PublicKey
+  
+  constructor(feePayer: PublicKey) {
+    this.feePayer = feePayer
+  }
+  
+  async getFeePayer(): Promise<PublicKey> {
+    return this.feePayer
+  }
+  
+  getSigners(relayWallet: PublicKey): PublicKey[] {
+    return [this.feePayer, relayWallet]
+  }
+  
+  async finalize(transaction: Transaction): Promise<Transaction> {
+    return transaction
+  }
+}
+
+// The network pays fees: the dispatcher co-signs as fee payer after we sign as the transfer authority
+export class SponsoredFeePayer implements FeePayer {
+  readonly mode = 'sponsored' as const
+  private dispatcher: DispatcherClient
+  private sponsor?: PublicKey
+  
+  constructor(dispatcher: DispatcherClient) {
+    this.dispatcher = dispatcher
+  }
+  
+  async getFeePayer(): Promise<PublicKey> {
+    if (!this.sponsor) {
+      this.sponsor = new PublicKey(await this.dispatcher.getFeeSponsor())
+    }
+    return this.sponsor
+  }
+  
+  getSigners(relayWallet: PublicKey): PublicKey[] {
+    return [relayWallet]
+  }
+  
+  async finalize(transaction: Transaction, offer: Offer): Promise<Transaction> {
+    const partial = transaction.serialize({ requireAllSignatures: false }).toString('base64')
+    const cosigned = Transaction.from(Buffer.from(await this.dispatcher.cosignTransaction(offer.id, partial), 'base64'))
+    
+    // The sponsor may only add its signature: the message we signed must come back unchanged
+    if (!cosigned.serializeMessage().equals(transaction.serializeMessage())) {
+      throw new Error('Sponsor returned a modified transaction')
+    }
+    
+    if (!cosigned.feePayer?.equals(this.sponsor!) || !cosigned.verifySignatures()) {
+      throw new Error('Sponsor co-signature is missing or invalid')
+    }
+    
+    return cosigned
+  }
+}
+
+export function createFeePayer(
+  mode: FeePayerMode,
+  walletManager: WalletManager,
+  dispatcher: DispatcherClient
+): FeePayer {
+  switch (mode) {
+    case 'relay':
+      return new RelayFeePayer()
+    case 'self':
+      if (!walletManager.feePayerPublicKey) {
+        throw new Error('FEE_PAYER_SECRET is required when FEE_PAYER_MODE=self')
+      }
+      return new SelfFeePayer(walletManager.feePayerPublicKey)
+    case 'sponsored':
+      return new SponsoredFeePayer(dispatcher)
+    default:
+      throw new Error(`Unknown fee payer mode: ${mode}`)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import { NodeConfig } from '../types'
+import { Logger } from '../utils/Logger'
+
+export interface PriorityFee {
+  microLamports: number
+  lamports: number
+}
+
+export class PriorityFeeEstimator {
+  private logger = new Logger('PriorityFeeEstimator')
+  private connection: Connection
+  private config: NodeConfig
+  
+  constructor(connection: Connection, config: NodeConfig) {
+    this.connection = connection
+    this.config = config
+  }
+  
+  // Price per compute unit for the given writable accounts, escalated per retry and capped in total
+  async estimate(writableAccounts: PublicKey[], computeUnits: number, attempt: number): Promise<PriorityFee> {
+    const { priorityFeePercentile, minMicroLamports, maxPriorityFeeLamports, escalationMultiplier } = this.config.fees
+    
+    let baseMicroLamports = minMicroLamports
+    try {
+      const recent = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writableAccounts
+      })
+      const fees = recent.map(entry => entry.prioritizationFee).sort((a, b) => a - b)
+      
+      if (fees.length > 0) {
+        const index = Math.min(fees.length - 1, Math.floor((priorityFeePercentile / 100) * fees.length))
+        baseMicroLamports = Math.max(minMicroLamports, fees[index]!)
+      }
+    } catch (error) {
+      this.logger.warn('Failed to fetch recent prioritization fees, using minimum:', error)
+    }
+    
+    const escalated = baseMicroLamports * escalationMultiplier ** attempt
+    const ceiling = Math.floor((maxPriorityFeeLamports * 1_000_000) / computeUnits)
+    const microLamports = Math.floor(Math.min(escalated, ceiling))
+    
+    return {
+      microLamports,
+      lamports: Math.ceil((microLamports * computeUnits) / 1_000_000)
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { Connection, PublicKey, TokenBalance, VersionedTransactionResponse } from '@solana/web3.js'
+import { ExecutionReceipt, FeePayerMode, Offer, SpendAccounting } from '../types'
+import { TokenRegistry } from '../tokens/TokenRegistry'
+import { Logger } from '../utils/Logger'
+
+// A just-confirmed transaction can take a moment to become available from getTransaction
+const FETCH_ATTEMPTS = 5
+const FETCH_RETRY_MS = 1_000
+
+export class SpendAccountant {
+  private logger = new Logger('SpendAccountant')
+  private connection: Connection
+  private tokenRegistry: TokenRegistry
+  private feePayerMode: FeePayerMode
+  
+  constructor(connection: Connection, tokenRegistry: TokenRegistry, feePayerMode: FeePayerMode) {
+    this.connection = connection
+    this.tokenRegistry = tokenRegistry
+    this.feePayerMode = feePayerMode
+  }
+  
+  // Exact costs of a landed transfer from its on-chain metadata, or null if it can't be fetched
+  async account(signature: string, offer: Offer, relayWallet: string): Promise<SpendAccounting | null> {
+    const transaction = await this.fetchTransaction(signature)
+    if (!transaction?.meta) {
+      this.logger.warn(`Transaction ${signature} metadata unavailable, keeping estimated costs`)
+      return null
+    }
+    
+    const { meta, slot, blockTime } = transaction
+    const accountKeys = transaction.transaction.message.getAccountKeys({
+      ...(meta.loadedAddresses && { accountKeysFromLookups: meta.loadedAddresses })
+    })
+    const relay = new PublicKey(relayWallet)
+    const relayIndex = accountKeys.staticAccountKeys.findIndex(key => key.equals(relay))
+    if (relayIndex < 0) {
+      this.logger.warn(`Relay wallet ${relayWallet} is not part of ${signature}, keeping estimated costs`)
+      return null
+    }
+    
+    const delta = (index: number) => (meta.postBalances[index] ?? 0) - (meta.preBalances[index] ?? 0)
+    const relayLamportsDelta = delta(relayIndex)
+    
+    // The fee payer is always the first account; only a dedicated fee payer of our own adds to our spend
+    const relayPaysFee = relayIndex === 0
+    const feePayerLamportsDelta = !relayPaysFee && this.feePayerMode === 'self' ? delta(0) : 0
+    
+    // Whatever the relay wallet lost beyond the fee and the transferred SOL went into new accounts' rent
+    const transferredLamports = this.tokenRegistry.isNative(offer.asset) ? parseInt(offer.amount) : 0
+    const rentLamports = Math.max(0, -relayLamportsDelta - (relayPaysFee ? meta.fee : 0) - transferredLamports)
+    
+    return {
+      spentLamports: -(relayLamportsDelta + feePayerLamportsDelta),
+      networkFeeLamports: meta.fee,
+      rentLamports,
+      relayLamportsDelta,
+      ...(!this.tokenRegistry.isNative(offer.asset) && {
+        relayTokenUnitsDelta: this.tokenDelta(transaction, relayWallet, this.tokenRegistry.get(offer.asset).mint)
+      }),
+      slot,
+      blockTime: blockTime ?? null
+    }
+  }
+  
+  // Receipt fields for the exact figures; spentLamports and feePaid are set by the caller
+  toReceiptFields(accounting: SpendAccounting): Partial<ExecutionReceipt> {
+    return {
+      networkFeeLamports: accounting.networkFeeLamports,
+      rentLamports: accounting.rentLamports,
+      relayLamportsDelta: accounting.relayLamportsDelta,
+      ...(accounting.relayTokenUnitsDelta !== undefined && { relayTokenUnitsDelta: accounting.relayTokenUnitsDelta }),
+      slot: accounting.slot,
+      blockTime: accounting.blockTime
+    }
+  }
+  
+  private tokenDelta(transaction: VersionedTransactionResponse, owner: string, mint: PublicKey): number {
+    const units = (balances: TokenBalance[] | null | undefined) => {
+      const balance = balances?.find(entry => entry.owner === owner && entry.mint === mint.toString())
+      return balance ? Number(balance.uiTokenAmount.amount) : 0
+    }
+    return units(transaction.meta?.postTokenBalances) - units(transaction.meta?.preTokenBalances)
+  }
+  
+  private async fetchTransaction(signature: string): Promise<VersionedTransactionResponse | null> {
+    for (let attempt = 0; attempt < FETCH_ATTEMPTS; attempt++) {
+      try {
+        const transaction = await this.connection.getTransaction(signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0
+        })
+        if (transaction) return transaction
+      } catch (error) {
+        this.logger.debug(`Failed to fetch transaction ${signature}:`, error)
+      }
+      await new Promise(resolve => setTimeout(resolve, FETCH_RETRY_MS))
+    }
+    return null
+  }
+}
@@ -1,102 +1,327 @@
 import { 
   Connection, 
-  Keypair, 
   PublicKey, 
   SystemProgram, 
   Transaction,
-  sendAndConfirmTransaction,
-  LAMPORTS_PER_SOL
+  ComputeBudgetProgram,
+  TransactionInstruction,
+  VersionedTransaction
 } from '@solana/web3.js'
 import {
-  createTransferInstruction,
+  createTransferCheckedInstruction,
   getAssociatedTokenAddress,
   createAssociatedTokenAccountInstruction,
-  getAccount
+  getAccount,
+  getAccountLenForMint,
+  getMint,
+  TokenOwnerOffCurveError
 } from '@solana/spl-token'
-import { Offer, ExecutionReceipt, NodeConfig } from '../types'
+import bs58 from 'bs58'
+import {
+  Offer,
+  ExecutionReceipt,
+  NodeConfig,
+  ExecutionOptions,
+  ExecutionOutcome,
+  TransactionLifetime,
+  FeasibilityResult,
+  SpendAccounting
+} from '../types'
 import { WalletManager } from '../wallet/WalletManager'
+import { Signer } from '../signing/Signer'
 import { Logger } from '../utils/Logger'
+import { FeePayer } from './FeePayer'
+import { PriorityFeeEstimator } from './PriorityFeeEstimator'
+import { TransactionSender } from './TransactionSender'
+import { SpendAccountant } from './SpendAccountant'
+import { TokenInfo, TokenRegistry } from '../tokens/TokenRegistry'
+
+// Compute unit limits per transfer shape, including the two ComputeBudget instructions
+export const SOL_TRANSFER_COMPUTE_UNITS = 1_000
+export const TOKEN_TRANSFER_COMPUTE_UNITS = 10_000
+export const TOKEN_TRANSFER_WITH_ATA_COMPUTE_UNITS = 40_000
+
+// Solana's base fee per transaction signature; estimates cost before accepting, and fills receipts
+// when the landed transaction can't be fetched
+export const LAMPORTS_PER_SIGNATURE = 5_000
+
+interface PreparedTransfer {
+  transfer: Transaction
+  spentLamports: number
+  computeUnits: number
+}
 
 export class TransactionExecutor {
   private logger = new Logger('TransactionExecutor')
   private connection: Connection
   private walletManager: WalletManager
+  private signer: Signer
   private config: NodeConfig
+  private feePayer: FeePayer
+  private tokenRegistry: TokenRegistry
+  private priorityFees: PriorityFeeEstimator
+  private sender: TransactionSender
+  private accountant: SpendAccountant
   
-  // USDC mint address (mainnet)
-  private readonly USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v')
-  
-  constructor(connection: Connection, walletManager: WalletManager, config: NodeConfig) {
+  constructor(
+    connection: Connection,
+    walletManager: WalletManager,
+    signer: Signer,
+    config: NodeConfig,
+    feePayer: FeePayer,
+    tokenRegistry: TokenRegistry
+  ) {
     this.connection = connection
     this.walletManager = walletManager
+    this.signer = signer
     this.config = config
+    this.feePayer = feePayer
+    this.tokenRegistry = tokenRegistry
+    this.priorityFees = new PriorityFeeEstimator(connection, config)
+    this.sender = new TransactionSender(connection, config)
+    this.accountant = new SpendAccountant(connection, tokenRegistry, feePayer.mode)
   }
   
-  async execute(offer: Offer): Promise<ExecutionReceipt> {
+  async execute(offer: Offer, options: ExecutionOptions = {}): Promise<ExecutionReceipt> {
+    const { excludeWallets = [], onProgress } = options
     const startTime = Date.now()
+    let signature = ''
+    let feePayer: PublicKey | undefined
+    let nonceAccount: PublicKey | null = null
+    // Set when a transfer signed against the nonce may still land; the account then stays reserved
+    // until recovery resolves the journaled signature
+    let holdNonce = false
+    let signedWithNonce = false
     
     try {
       this.logger.info(`🚀 Executing offer ${offer.id} (${offer.asset} ${offer.amount})`)
       
       // Get a relay wallet to execute from
-      const fromWallet = this.walletManager.getNextRelayWallet()
+      const fromWallet = await this.walletManager.selectRelayWallet(this.connection, offer, excludeWallets)
+      Logger.addContext({ walletIndex: this.walletManager.relayWallets.findIndex(wallet => wallet.equals(fromWallet)) + 1 })
       const recipient = new PublicKey(offer.recipient)
       
-      let transaction: Transaction
-      let spentLamports = 0
+      // With a durable nonce the signed transfer stays valid until used, instead of ~90s
+      nonceAccount = this.walletManager.acquireNonceAccount(fromWallet)
+      
+      const { transfer, spentLamports, computeUnits } = await this.buildTransfer(offer, fromWallet, recipient)
+      
+      feePayer = await this.feePayer.getFeePayer(fromWallet)
+      const writableAccounts = transfer.instructions
+        .flatMap(instruction => instruction.keys)
+        .filter(key => key.isWritable)
+        .map(key => key.pubkey)
       
-      if (offer.asset === 'SOL') {
-        transaction = await this.createSOLTransfer(fromWallet, recipient, offer.amount)
-        spentLamports = parseInt(offer.amount)
-      } else if (offer.asset === 'USDC') {
-        const result = await this.createUSDCTransfer(fromWallet, recipient, offer.amount)
-        transaction = result.transaction
-        spentLamports = result.feesPaid
-      } else {
-        throw new Error(`Unsupported asset: ${offer.asset}`)
+      for (let attempt = 0; ; attempt++) {
+        const priorityFee = await this.priorityFees.estimate(writableAccounts, computeUnits, attempt)
+        
+        const { lifetime, recentBlockhash } = await this.getLifetime(nonceAccount)
+        signedWithNonce = lifetime.kind === 'nonce'
+        
+        // A nonce-advance instruction has to come first for the runtime to accept the nonce
+        const instructions: TransactionInstruction[] = lifetime.kind === 'nonce'
+          ? [SystemProgram.nonceAdvance({ noncePubkey: nonceAccount!, authorizedPubkey: fromWallet })]
+          : []
+        
+        let transaction = new Transaction().add(
+          ...instructions,
+          ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+          ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee.microLamports }),
+          ...transfer.instructions
+        )
+        
+        // Sign up front so the signature is known (and journaled) before anything is broadcast
+        transaction.recentBlockhash = recentBlockhash
+        transaction.feePayer = feePayer
+        await this.signer.signTransaction(transaction, this.feePayer.getSigners(fromWallet))
+        
+        // Sponsored mode: the dispatcher adds the fee payer signature
+        transaction = await this.feePayer.finalize(transaction, offer)
+        signature = bs58.encode(transaction.signature!)
+        
+        // Priority fees come out of our pocket unless the network sponsors them
+        const priorityFeeLamports = this.feePayer.mode === 'sponsored' ? 0 : priorityFee.lamports
+        const rawTransaction = transaction.serialize()
+        const progress = {
+          signature,
+          relayWallet: fromWallet.toString(),
+          ...(lifetime.kind === 'nonce'
+            ? { nonceAccount: lifetime.nonceAccount, nonce: lifetime.nonce }
+            : { lastValidBlockHeight: lifetime.lastValidBlockHeight }),
+          rawTransaction: rawTransaction.toString('base64'),
+          spentLamports: spentLamports + priorityFeeLamports
+        }
+        onProgress?.({ stage: 'tx_built', ...progress })
+        
+        const result = await this.sender.send(
+          rawTransaction,
+          signature,
+          lifetime,
+          () => onProgress?.({ stage: 'broadcast', ...progress })
+        )
+        
+        // Only a provably dead blockhash or advanced nonce makes it safe to sign a fresh transfer
+        if (result.outcome === 'expired' && attempt + 1 < this.config.node.retry.max) {
+          this.logger.warn(`⏫ Offer ${offer.id} expired unconfirmed (${signature}), retrying with a higher priority fee`)
+          continue
+        }
+        
+        // Anything that landed, even with an error, gets its real costs from the transaction metadata
+        const accounting = result.slot !== undefined
+          ? await this.accountant.account(signature, offer, progress.relayWallet)
+          : null
+        
+        if (result.outcome !== 'confirmed') {
+          holdNonce = signedWithNonce && result.outcome === 'unknown'
+          this.logger.error(`❌ Offer ${offer.id} ${result.outcome} (${signature}): ${result.error}`)
+          return this.failureReceipt(offer, signature, feePayer, result.outcome, result.error ?? result.outcome, accounting)
+        }
+        
+        const executionTime = Date.now() - startTime
+        this.logger.info(`✅ Executed ${offer.id} in ${executionTime}ms (${signature}, priority fee ${priorityFeeLamports} lamports)`)
+        
+        return {
+          partId: offer.partId,
+          txSignature: signature,
+          spentLamports: accounting?.spentLamports ?? progress.spentLamports,
+          feePaid: accounting?.networkFeeLamports ?? LAMPORTS_PER_SIGNATURE * transaction.signatures.length + priorityFee.lamports,
+          timestamp: Date.now(),
+          success: true,
+          feePayerMode: this.feePayer.mode,
+          feePayer: feePayer.toString(),
+          priorityFeeLamports,
+          outcome: 'confirmed',
+          ...(accounting && this.accountant.toReceiptFields(accounting))
+        }
       }
       
-      // Send and confirm transaction
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [fromWallet],
-        {
-          commitment: 'confirmed',
-          maxRetries: this.config.node.retry.max
+    } catch (error) {
+      const executionTime = Date.now() - startTime
+      this.logger.error(`❌ Failed to execute ${offer.id} after ${executionTime}ms:`, error)
+      
+      // Once signed the transaction may have gone out, so we can't claim it didn't land
+      const outcome = signature ? 'unknown' : 'failed'
+      holdNonce = signedWithNonce && outcome === 'unknown'
+      return this.failureReceipt(offer, signature, feePayer, outcome, error instanceof Error ? error.message : String(error))
+    } finally {
+      if (nonceAccount && !holdNonce) {
+        this.walletManager.releaseNonceAccount(nonceAccount)
+      }
+    }
+  }
+  
+  // The nonce value stands in for the recent blockhash when a nonce account is available
+  private async getLifetime(
+    nonceAccount: PublicKey | null
+  ): Promise<{ lifetime: TransactionLifetime; recentBlockhash: string }> {
+    if (nonceAccount) {
+      const nonce = await this.connection.getNonce(nonceAccount)
+      if (nonce) {
+        return {
+          lifetime: { kind: 'nonce', nonceAccount: nonceAccount.toString(), nonce: nonce.nonce },
+          recentBlockhash: nonce.nonce
         }
+      }
+      this.logger.warn(`Nonce account ${nonceAccount.toString()} is not initialized, using a recent blockhash`)
+    }
+    
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash()
+    return { lifetime: { kind: 'blockhash', lastValidBlockHeight }, recentBlockhash: blockhash }
+  }
+  
+  // Dry run before an offer is accepted: would a transfer from a funded wallet succeed right now?
+  async checkFeasibility(offer: Offer, excludeWallets: string[] = []): Promise<FeasibilityResult> {
+    let recipient: PublicKey
+    try {
+      recipient = new PublicKey(offer.recipient)
+    } catch {
+      return { feasible: false, reason: 'invalid_recipient', detail: `${offer.recipient} is not a valid address` }
+    }
+    
+    try {
+      const fromWallet = await this.walletManager.findFundedWallet(this.connection, offer, excludeWallets)
+      if (!fromWallet) {
+        return { feasible: false, reason: 'insufficient_balance', detail: `No relay wallet can cover ${offer.asset} ${offer.amount}` }
+      }
+      const relayWallet = fromWallet.toString()
+      
+      const { transfer, computeUnits } = await this.buildTransfer(offer, fromWallet, recipient)
+      const transaction = new Transaction().add(
+        ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+        ...transfer.instructions
       )
+      transaction.recentBlockhash = (await this.connection.getLatestBlockhash()).blockhash
+      transaction.feePayer = await this.feePayer.getFeePayer(fromWallet)
       
-      const executionTime = Date.now() - startTime
-      this.logger.info(`✅ Executed ${offer.id} in ${executionTime}ms (${signature})`)
+      // Unsigned, so signatures aren't verified; balances, accounts and program errors still are
+      const { value } = await this.connection.simulateTransaction(
+        new VersionedTransaction(transaction.compileMessage()),
+        { sigVerify: false }
+      )
       
-      return {
-        partId: offer.partId,
-        txSignature: signature,
-        spentLamports,
-        feePaid: offer.feeLamports,
-        timestamp: Date.now(),
-        success: true
+      if (value.err) {
+        const logs = (value.logs ?? []).slice(-3).join(' | ')
+        return {
+          feasible: false,
+          reason: 'simulation_failed',
+          detail: `${JSON.stringify(value.err)}${logs ? ` (${logs})` : ''}`,
+          relayWallet
+        }
       }
       
+      return { feasible: true, relayWallet }
     } catch (error) {
-      const executionTime = Date.now() - startTime
-      this.logger.error(`❌ Failed to execute ${offer.id} after ${executionTime}ms:`, error)
-      
+      if (error instanceof TokenOwnerOffCurveError) {
+        return { feasible: false, reason: 'invalid_recipient', detail: `${offer.recipient} cannot own a token account` }
+      }
+      return { feasible: false, reason: 'rpc_error', detail: error instanceof Error ? error.message : String(error) }
+    }
+  }
+  
+  private async buildTransfer(offer: Offer, fromWallet: PublicKey, recipient: PublicKey): Promise<PreparedTransfer> {
+    if (this.tokenRegistry.isNative(offer.asset)) {
       return {
-        partId: offer.partId,
-        txSignature: '',
-        spentLamports: 0,
-        feePaid: 0,
-        timestamp: Date.now(),
-        success: false,
-        error: error instanceof Error ? error.message : String(error)
+        transfer: await this.createSOLTransfer(fromWallet, recipient, offer.amount),
+        spentLamports: parseInt(offer.amount),
+        computeUnits: SOL_TRANSFER_COMPUTE_UNITS
       }
     }
+    
+    // Throws for assets not registered on the current cluster
+    const token = this.tokenRegistry.get(offer.asset)
+    const result = await this.createTokenTransfer(fromWallet, recipient, offer.amount, token)
+    return {
+      transfer: result.transaction,
+      spentLamports: result.rentLamports,
+      computeUnits: result.createsAccount ? TOKEN_TRANSFER_WITH_ATA_COMPUTE_UNITS : TOKEN_TRANSFER_COMPUTE_UNITS
+    }
+  }
+  
+  private failureReceipt(
+    offer: Offer,
+    signature: string,
+    feePayer: PublicKey | undefined,
+    outcome: ExecutionOutcome,
+    error: string,
+    accounting: SpendAccounting | null = null
+  ): ExecutionReceipt {
+    return {
+      partId: offer.partId,
+      txSignature: signature,
+      spentLamports: accounting?.spentLamports ?? 0,
+      feePaid: accounting?.networkFeeLamports ?? 0,
+      timestamp: Date.now(),
+      success: false,
+      error,
+      feePayerMode: this.feePayer.mode,
+      ...(feePayer && { feePayer: feePayer.toString() }),
+      outcome,
+      ...(accounting && this.accountant.toReceiptFields(accounting))
+    }
   }
   
   private async createSOLTransfer(
-    fromWallet: Keypair, 
+    fromWallet: PublicKey, 
     recipient: PublicKey, 
     amount: string
   ): Promise<Transaction> {
@@ -104,68 +329,67 @@ export class TransactionExecutor {
     
     const transaction = new Transaction().add(
       SystemProgram.transfer({
-        fromPubkey: fromWallet.publicKey,
+        fromPubkey: fromWallet,
         toPubkey: recipient,
         lamports
       })
     )
     
-    // Get recent blockhash
-    const { blockhash } = await this.connection.getLatestBlockhash()
-    transaction.recentBlockhash = blockhash
-    transaction.feePayer = fromWallet.publicKey
-    
     return transaction
   }
   
-  private async createUSDCTransfer(
-    fromWallet: Keypair,
+  private async createTokenTransfer(
+    fromWallet: PublicKey,
     recipient: PublicKey,
-    amount: string
-  ): Promise<{ transaction: Transaction; feesPaid: number }> {
-    const usdcAmount = parseInt(amount) // Amount in smallest units (6 decimals for USDC)
+    amount: string,
+    token: TokenInfo
+  ): Promise<{ transaction: Transaction; rentLamports: number; createsAccount: boolean }> {
+    const tokenAmount = parseInt(amount) // Amount in the token's smallest units
     
-    // Get associated token addresses
-    const fromATA = await getAssociatedTokenAddress(this.USDC_MINT, fromWallet.publicKey)
-    const toATA = await getAssociatedTokenAddress(this.USDC_MINT, recipient)
+    // Get associated token addresses under the token's own program
+    const fromATA = await getAssociatedTokenAddress(token.mint, fromWallet, false, token.programId)
+    const toATA = await getAssociatedTokenAddress(token.mint, recipient, false, token.programId)
     
     const transaction = new Transaction()
-    let feesPaid = 0
+    let rentLamports = 0
+    let createsAccount = false
     
     // Check if recipient ATA exists, create if not
     try {
-      await getAccount(this.connection, toATA)
+      await getAccount(this.connection, toATA, undefined, token.programId)
     } catch (error) {
       // ATA doesn't exist, need to create it
-      this.logger.info(`Creating USDC ATA for recipient: ${toATA.toString()}`)
+      this.logger.info(`Creating ${token.symbol} ATA for recipient: ${toATA.toString()}`)
       transaction.add(
         createAssociatedTokenAccountInstruction(
-          fromWallet.publicKey, // payer
+          fromWallet, // payer
           toATA, // ata
           recipient, // owner
-          this.USDC_MINT // mint
+          token.mint, // mint
+          token.programId
         )
       )
       
-      // Estimate fee for ATA creation (roughly 0.002 SOL)
-      feesPaid += 0.002 * LAMPORTS_PER_SOL
+      // Rent-exempt minimum for the new account, sized for the mint's extensions
+      const mint = await getMint(this.connection, token.mint, undefined, token.programId)
+      rentLamports += await this.connection.getMinimumBalanceForRentExemption(getAccountLenForMint(mint))
+      createsAccount = true
     }
     
-    // Add the USDC transfer instruction
+    // Checked transfer: required by Token-2022 mints and guards against decimal mismatches
     transaction.add(
-      createTransferInstruction(
+      createTransferCheckedInstruction(
         fromATA, // source
+        token.mint, // mint
         toATA, // destination
-        fromWallet.publicKey, // owner
-        usdcAmount // amount
+        fromWallet, // owner
+        tokenAmount, // amount
+        token.decimals, // decimals
+        [],
+        token.programId
       )
     )
     
-    // Get recent blockhash
-    const { blockhash } = await this.connection.getLatestBlockhash()
-    transaction.recentBlockhash = blockhash
-    transaction.feePayer = fromWallet.publicKey
-    
-    return { transaction, feesPaid }
+    return { transaction, rentLamports, createsAccount }
   }
 }
\ No newline at end of file
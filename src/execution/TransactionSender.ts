@@ -0,0 +1,96 @@
+import { Connection, PublicKey, SendTransactionError, SignatureStatus } from '@solana/web3.js'
+import { ExecutionOutcome, NodeConfig, TransactionLifetime } from '../types'
+import { Logger } from '../utils/Logger'
+
+// How often the same signed transaction is re-sent and its status polled
+const REBROADCAST_INTERVAL_MS = 2_000
+
+export interface SendResult {
+  outcome: ExecutionOutcome
+  error?: string
+  slot?: number
+}
+
+// True once a transaction with this lifetime can provably never land: the finalized chain is past
+// its blockhash, or its durable nonce has been advanced
+export async function isLifetimeExpired(connection: Connection, lifetime: TransactionLifetime): Promise<boolean> {
+  if (lifetime.kind === 'blockhash') {
+    const blockHeight = await connection.getBlockHeight('finalized')
+    return blockHeight > lifetime.lastValidBlockHeight
+  }
+  
+  const nonce = await connection.getNonce(new PublicKey(lifetime.nonceAccount), 'finalized')
+  return !nonce || nonce.nonce !== lifetime.nonce
+}
+
+export class TransactionSender {
+  private logger = new Logger('TransactionSender')
+  private connection: Connection
+  private config: NodeConfig
+  
+  constructor(connection: Connection, config: NodeConfig) {
+    this.connection = connection
+    this.config = config
+  }
+  
+  // Broadcast a signed transaction and keep re-sending the same bytes until it confirms, its
+  // lifetime is provably over, or txConfirmTimeoutMs runs out. Never re-signs, so it can't double-pay.
+  async send(
+    rawTransaction: Buffer,
+    signature: string,
+    lifetime: TransactionLifetime,
+    onBroadcast?: () => void
+  ): Promise<SendResult> {
+    const deadline = Date.now() + this.config.node.timeout.txConfirmTimeoutMs
+    
+    try {
+      await this.connection.sendRawTransaction(rawTransaction, { maxRetries: 0 })
+    } catch (error) {
+      // Rejected by preflight simulation, so the transaction was never forwarded to a leader
+      if (error instanceof SendTransactionError) {
+        return { outcome: 'failed', error: error.message }
+      }
+      this.logger.warn(`Initial broadcast of ${signature} errored, it may still have been forwarded:`, error)
+    }
+    onBroadcast?.()
+    
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, REBROADCAST_INTERVAL_MS))
+      
+      try {
+        const { value: [status] } = await this.connection.getSignatureStatuses([signature])
+        const landed = this.toResult(status)
+        if (landed) return landed
+        
+        if (await isLifetimeExpired(this.connection, lifetime)) {
+          const { value: [finalStatus] } = await this.connection.getSignatureStatuses([signature], {
+            searchTransactionHistory: true
+          })
+          return this.toResult(finalStatus) ?? { outcome: 'expired', error: 'Transaction expired without landing' }
+        }
+        
+        if (!status) {
+          await this.connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+          this.logger.debug(`📡 Rebroadcast ${signature}`)
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to check or rebroadcast ${signature}, retrying:`, error)
+      }
+    }
+    
+    return { outcome: 'unknown', error: `Not confirmed within ${this.config.node.timeout.txConfirmTimeoutMs}ms, may still land` }
+  }
+  
+  // Final result for a confirmed status, or null while the transaction is missing or only processed
+  private toResult(status: SignatureStatus | null | undefined): SendResult | null {
+    if (!status || !status.confirmationStatus || status.confirmationStatus === 'processed') {
+      return null
+    }
+    
+    if (status.err) {
+      return { outcome: 'failed', error: `Transaction failed on-chain: ${JSON.stringify(status.err)}`, slot: status.slot }
+    }
+    
+    return { outcome: 'confirmed', slot: status.slot }
+  }
+}
@@ -12,6 +12,10 @@
 
 import { config } from 'dotenv'
 import { ShhNode } from './node/ShhNode'
+import { Keystore, resolveKeystorePassphrase } from './wallet/Keystore'
+import { Signer } from './signing/Signer'
+import { LocalSigner } from './signing/LocalSigner'
+import { RemoteSigner } from './signing/RemoteSigner'
 import { Logger } from './utils/Logger'
 import { validateEnvironment } from './utils/Environment'
 
@@ -33,10 +37,26 @@ async function main() {
       process.exit(1)
     }
     
+    validation.warnings?.forEach(warning => logger.warn(`⚠️  ${warning}`))
     logger.info('✅ Environment validation passed')
     
+    // Sign through the signing daemon when configured; otherwise hold the keys in this process,
+    // from the encrypted keystore when there is one or from env vars
+    let signer: Signer
+    if (process.env.SIGNER_SOCKET) {
+      signer = await RemoteSigner.connect(process.env.SIGNER_SOCKET)
+      logger.info(`🔏 Using signing daemon at ${process.env.SIGNER_SOCKET}`)
+    } else {
+      let keystore: Keystore | null = null
+      if (process.env.KEYSTORE_PATH) {
+        keystore = Keystore.unlock(process.env.KEYSTORE_PATH, await resolveKeystorePassphrase())
+        logger.info(`🔓 Keystore unlocked: ${process.env.KEYSTORE_PATH}`)
+      }
+      signer = LocalSigner.load(keystore)
+    }
+    
     // Initialize and start the node
-    const node = new ShhNode()
+    const node = new ShhNode(signer)
     
     // Handle graceful shutdown
     const shutdown = async (signal: string) => {
@@ -48,6 +68,10 @@ async function main() {
     
     process.on('SIGINT', () => shutdown('SIGINT'))
     process.on('SIGTERM', () => shutdown('SIGTERM'))
+    process.on('SIGHUP', () => {
+      logger.info('📥 Received SIGHUP, reloading config...')
+      node.reloadConfig()
+    })
     process.on('uncaughtException', (error) => {
       logger.error('💥 Uncaught exception:', error)
       shutdown('uncaughtException')
@@ -61,8 +85,14 @@ async function main() {
     await node.start()
     
     logger.info('🎯 SHH Node is running and accepting offers!')
-    logger.info('📊 Monitor status at: http://localhost:8080/health')
-    logger.info('📈 Metrics available at: http://localhost:9090/metrics')
+    const endpoints = node.getMonitoringEndpoints()
+    logger.info(`📊 Monitor status at: ${endpoints.health}`)
+    if (endpoints.metrics) {
+      logger.info(`📈 Metrics available at: ${endpoints.metrics}`)
+    }
+    if (endpoints.admin) {
+      logger.info(`🛂 Admin API at: ${endpoints.admin}`)
+    }
     
   } catch (error) {
     logger.error('💥 Failed to start SHH Node:', error)
@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { SpendLedger } from './SpendLedger'
+import { NodeConfig, Offer } from '../types'
+
+const LIMITS: NodeConfig['limits'] = {
+  perTxLamports: 1000,
+  perDayLamports: 2500,
+  tokenUnits: {
+    USDC: { perTx: 100, perDay: 150 }
+  },
+  maxPartsPerHour: 10
+}
+
+let nextId = 0
+function offer(asset: string, amount: number): Offer {
+  nextId++
+  return {
+    id: `offer-${nextId}`,
+    partId: `part-${nextId}`,
+    asset,
+    amount: amount.toString(),
+    recipient: '11111111111111111111111111111111',
+    feeLamports: 5000
+  }
+}
+
+describe('SpendLedger', () => {
+  const env = process.env
+  let dir: string
+  let filePath: string
+  let ledger: SpendLedger
+  
+  beforeEach(() => {
+    process.env = { ...env, LOG_LEVEL: 'error' }
+    dir = mkdtempSync(join(tmpdir(), 'spend-ledger-test-'))
+    filePath = join(dir, 'spend-ledger.json')
+    ledger = new SpendLedger(LIMITS, filePath)
+    ledger.load()
+  })
+  
+  afterEach(() => {
+    process.env = env
+    rmSync(dir, { recursive: true, force: true })
+  })
+  
+  it('rejects a single transfer above the per-tx limit', () => {
+    expect(ledger.check(offer('SOL', 1001))).toMatchObject({ allowed: false })
+    expect(ledger.check(offer('SOL', 1000))).toEqual({ allowed: true })
+  })
+  
+  it('counts reservations against the daily limit before anything executes', () => {
+    ledger.reserve(offer('SOL', 1000))
+    ledger.reserve(offer('SOL', 1000))
+    
+    const check = ledger.check(offer('SOL', 1000))
+    expect(check.allowed).toBe(false)
+    expect(check.reason).toContain('daily limit')
+  })
+  
+  it('frees the daily allowance when a reservation is released', () => {
+    const first = offer('SOL', 1000)
+    ledger.reserve(first)
+    ledger.reserve(offer('SOL', 1000))
+    
+    ledger.release(first.id)
+    
+    expect(ledger.check(offer('SOL', 1000))).toEqual({ allowed: true })
+  })
+  
+  it('counts settled spend instead of the reserved amount', () => {
+    const first = offer('SOL', 1000)
+    ledger.reserve(first)
+    ledger.settle(first.id, 2000)
+    
+    expect(ledger.check(offer('SOL', 1000)).allowed).toBe(false)
+  })
+  
+  it('enforces token limits separately and refuses tokens without configured limits', () => {
+    ledger.reserve(offer('USDC', 100))
+    
+    expect(ledger.check(offer('USDC', 100)).allowed).toBe(false)
+    expect(ledger.check(offer('USDC', 50))).toEqual({ allowed: true })
+    expect(ledger.check(offer('BONK', 1)).reason).toContain('no configured limits')
+  })
+  
+  it('stops at the hourly part limit', () => {
+    const ledger = new SpendLedger({ ...LIMITS, maxPartsPerHour: 2 }, filePath)
+    ledger.reserve(offer('SOL', 1))
+    ledger.reserve(offer('SOL', 1))
+    
+    expect(ledger.check(offer('SOL', 1)).reason).toContain('hourly part limit')
+  })
+  
+  it('keeps reservations across a restart', () => {
+    ledger.reserve(offer('SOL', 1000))
+    ledger.reserve(offer('SOL', 1000))
+    
+    const restarted = new SpendLedger(LIMITS, filePath)
+    restarted.load()
+    
+    expect(restarted.getUtilization().lamportsLast24h).toBe(2000)
+    expect(restarted.check(offer('SOL', 1000)).allowed).toBe(false)
+  })
+})
@@ -0,0 +1,155 @@
+import { Offer, NodeConfig, SpendRecord, LimitUtilization } from '../types'
+import { NATIVE_ASSET } from '../tokens/TokenRegistry'
+import { Logger } from '../utils/Logger'
+import { getDataPath, readJsonFile, writeJsonFileAtomic } from '../utils/Storage'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface LimitCheck {
+  allowed: boolean
+  reason?: string
+}
+
+export class SpendLedger {
+  private logger = new Logger('SpendLedger')
+  private filePath: string
+  private limits: NodeConfig['limits']
+  private records: SpendRecord[] = []
+  
+  constructor(limits: NodeConfig['limits'], filePath = getDataPath('spend-ledger.json')) {
+    this.filePath = filePath
+    this.limits = limits
+  }
+  
+  // New limits apply to the next check; reservations already made are kept
+  setLimits(limits: NodeConfig['limits']): void {
+    this.limits = limits
+  }
+  
+  load(): void {
+    this.records = readJsonFile<SpendRecord[]>(this.filePath, [])
+    this.prune()
+    
+    const utilization = this.getUtilization()
+    this.logger.info(`📒 Spend ledger loaded: ${utilization.lamportsLast24h}/${utilization.perDayLamports} lamports today, ${utilization.partsLastHour}/${utilization.maxPartsPerHour} parts this hour`)
+  }
+  
+  check(offer: Offer): LimitCheck {
+    this.prune()
+    
+    const { lamports, tokenUnits } = this.amountsFor(offer)
+    const utilization = this.getUtilization()
+    
+    if (lamports > this.limits.perTxLamports) {
+      return { allowed: false, reason: `exceeds per-tx limit: ${lamports} > ${this.limits.perTxLamports} lamports` }
+    }
+    
+    if (utilization.lamportsLast24h + lamports > this.limits.perDayLamports) {
+      return { allowed: false, reason: `would exceed daily limit: ${utilization.lamportsLast24h} + ${lamports} > ${this.limits.perDayLamports} lamports` }
+    }
+    
+    if (offer.asset !== NATIVE_ASSET) {
+      const tokenLimits = this.limits.tokenUnits[offer.asset]
+      if (!tokenLimits) {
+        return { allowed: false, reason: `has no configured limits for ${offer.asset}` }
+      }
+      
+      if (tokenUnits > tokenLimits.perTx) {
+        return { allowed: false, reason: `exceeds per-tx limit: ${tokenUnits} > ${tokenLimits.perTx} ${offer.asset} units` }
+      }
+      
+      const spentToday = utilization.tokenUnitsLast24h[offer.asset] ?? 0
+      if (spentToday + tokenUnits > tokenLimits.perDay) {
+        return { allowed: false, reason: `would exceed daily limit: ${spentToday} + ${tokenUnits} > ${tokenLimits.perDay} ${offer.asset} units` }
+      }
+    }
+    
+    if (utilization.partsLastHour >= this.limits.maxPartsPerHour) {
+      return { allowed: false, reason: `hourly part limit reached: ${utilization.partsLastHour}/${this.limits.maxPartsPerHour}` }
+    }
+    
+    return { allowed: true }
+  }
+  
+  // Reserve an offer's spend at acceptance so concurrent offers can't jointly breach limits
+  reserve(offer: Offer): void {
+    const { lamports, tokenUnits } = this.amountsFor(offer)
+    
+    this.records.push({
+      offerId: offer.id,
+      asset: offer.asset,
+      timestamp: Date.now(),
+      lamports,
+      tokenUnits
+    })
+    this.save()
+  }
+  
+  // Replace the reserved lamports with what execution actually spent (fees, ATA rent)
+  settle(offerId: string, spentLamports: number): void {
+    const record = this.records.find(r => r.offerId === offerId)
+    if (!record) return
+    
+    record.lamports = spentLamports
+    this.save()
+  }
+  
+  // Drop a reservation for an offer that provably moved no funds
+  release(offerId: string): void {
+    const before = this.records.length
+    this.records = this.records.filter(r => r.offerId !== offerId)
+    
+    if (this.records.length !== before) {
+      this.save()
+    }
+  }
+  
+  getUtilization(): LimitUtilization {
+    const now = Date.now()
+    let lamportsLast24h = 0
+    let partsLastHour = 0
+    const tokenUnitsLast24h: Record<string, number> = {}
+    
+    for (const record of this.records) {
+      if (now - record.timestamp > DAY_MS) continue
+      
+      lamportsLast24h += record.lamports
+      if (record.tokenUnits > 0) {
+        tokenUnitsLast24h[record.asset] = (tokenUnitsLast24h[record.asset] ?? 0) + record.tokenUnits
+      }
+      
+      if (now - record.timestamp <= HOUR_MS) {
+        partsLastHour++
+      }
+    }
+    
+    return {
+      lamportsLast24h,
+      perDayLamports: this.limits.perDayLamports,
+      tokenUnitsLast24h,
+      perDayTokenUnits: Object.fromEntries(
+        Object.entries(this.limits.tokenUnits).map(([asset, limits]) => [asset, limits.perDay])
+      ),
+      partsLastHour,
+      maxPartsPerHour: this.limits.maxPartsPerHour
+    }
+  }
+  
+  private amountsFor(offer: Offer): { lamports: number; tokenUnits: number } {
+    const amount = parseInt(offer.amount)
+    return offer.asset === NATIVE_ASSET
+      ? { lamports: amount, tokenUnits: 0 }
+      : { lamports: 0, tokenUnits: amount }
+  }
+  
+  private prune(): void {
+    const cutoff = Date.now() - DAY_MS
+    this.records = this.records.filter(r => r.timestamp >= cutoff)
+  }
+  
+  private save(): void {
+    this.prune()
+    writeJsonFileAtomic(this.filePath, this.records)
+  }
+}
\ No newline at end of file
@@ -1,7 +1,6 @@
 import http from 'http'
 import { HealthStatus } from '../types'
 import { Logger } from '../utils/Logger'
-import { Metrics } from './Metrics'
 
 export class HealthServer {
   private logger = new Logger('HealthServer')
@@ -9,11 +8,15 @@ export class HealthServer {
   private port: number
   private getHealthStatus: () => Promise<HealthStatus>
   
-  constructor(getHealthStatus: () => Promise<HealthStatus>) {
-    this.port = parseInt(process.env.HEALTH_PORT || '8080')
+  constructor(port: number, getHealthStatus: () => Promise<HealthStatus>) {
+    this.port = port
     this.getHealthStatus = getHealthStatus
   }
   
+  getPort(): number {
+    return this.port
+  }
+  
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.server = http.createServer(this.handleRequest.bind(this))
@@ -81,17 +84,22 @@ export class HealthServer {
     res.end(JSON.stringify({
       status: status.status,
       uptime: status.uptime,
+      intake: status.intake,
       wallets: status.wallets.length,
       activeWallets: status.wallets.filter(w => w.isActive).length,
       activeOffers: status.activeOffers,
+      limits: status.limits,
+      scheduled: status.scheduled?.map(part => ({
+        ...part,
+        scheduledAt: new Date(part.scheduledAt).toISOString()
+      })),
       metrics: status.metrics,
       timestamp: new Date().toISOString()
     }, null, 2))
   }
   
   private async handleMetrics(res: http.ServerResponse): Promise<void> {
-    // This would typically integrate with Prometheus metrics
-    // For now, return basic JSON metrics
+    // JSON snapshot; the Prometheus exporter runs on monitoring.metricsPort
     const status = await this.getHealthStatus()
     
     res.writeHead(200, { 'Content-Type': 'application/json' })
@@ -101,13 +109,17 @@ export class HealthServer {
   private async handleReady(res: http.ServerResponse): Promise<void> {
     const status = await this.getHealthStatus()
     
-    const isReady = status.status !== 'unhealthy' && 
+    const accepting = !status.intake || status.intake === 'accepting'
+    const isReady = accepting &&
+                   status.status !== 'unhealthy' && 
                    status.wallets.some(w => w.isActive)
     
     res.writeHead(isReady ? 200 : 503, { 'Content-Type': 'application/json' })
     res.end(JSON.stringify({
       ready: isReady,
-      reason: isReady ? 'Node is ready to accept offers' : 'Node not ready - check wallet balances'
+      reason: isReady ? 'Node is ready to accept offers'
+        : !accepting ? `Node not ready - offer intake ${status.intake}`
+        : 'Node not ready - check wallet balances'
     }))
   }
   
@@ -1,96 +1,206 @@
-import { MetricsSnapshot } from '../types'
+import { LAMPORTS_PER_SOL } from '@solana/web3.js'
+import {
+  AssetSymbol,
+  EarningsReconciliation,
+  ExecutionOutcome,
+  FeasibilityDeclineReason,
+  FingerprintFinding,
+  MetricsSnapshot,
+  ProfitabilityDecision,
+  WalletBalance
+} from '../types'
+import { Counter, Gauge, Histogram } from './Prometheus'
+
+// Execution buckets span a fast SOL transfer up to a full confirm timeout with rebroadcasts
+const EXECUTION_BUCKETS_SECONDS = [0.5, 1, 2, 5, 10, 20, 30, 60, 120]
+const RPC_BUCKETS_SECONDS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
 
 export class Metrics {
   private startTime = Date.now()
-  private counters = {
-    offersReceived: 0,
-    offersAccepted: 0,
-    offersCompleted: 0,
-    offersFailed: 0,
-    heartbeats: 0,
-    heartbeatErrors: 0
+  
+  private offersReceived = new Counter('shh_node_offers_received_total', 'Offers received from the dispatcher')
+  private offersAccepted = new Counter('shh_node_offers_accepted_total', 'Offers accepted')
+  private offersCompleted = new Counter('shh_node_offers_completed_total', 'Accepted offers executed, by outcome')
+  private offersFailed = new Counter('shh_node_offers_failed_total', 'Offers whose handling errored before an outcome was known')
+  private executionDuration = new Histogram(
+    'shh_node_execution_duration_seconds',
+    'Time from the scheduled slot to a confirmed transfer',
+    EXECUTION_BUCKETS_SECONDS
+  )
+  private earnings = new Counter('shh_node_earnings_sol_total', 'Fees earned from confirmed offers in SOL')
+  private payoutsReceived = new Gauge('shh_node_payouts_received_sol', 'Payouts received on the payout address since the ledger began, in SOL')
+  private earningsOutstanding = new Gauge('shh_node_earnings_outstanding_sol', 'Fees earned but not yet paid out, in SOL')
+  private priorityFees = new Counter('shh_node_priority_fees_lamports_total', 'Priority fees paid in lamports')
+  private fingerprintFindings = new Counter('shh_node_fingerprint_findings_total', 'Offers flagged as amount-fingerprintable')
+  private feasibilityDeclines = new Counter(
+    'shh_node_feasibility_declines_total',
+    'Offers declined because a pre-acceptance check showed they would fail'
+  )
+  private profitabilityDecisions = new Counter(
+    'shh_node_profitability_decisions_total',
+    'Offers accepted or declined by the profitability evaluator'
+  )
+  private estimatedMargin = new Counter(
+    'shh_node_estimated_margin_lamports_total',
+    'Estimated margin of accepted offers in lamports'
+  )
+  private lastMargin = new Gauge('shh_node_last_estimated_margin_lamports', 'Estimated margin of the last evaluated offer in lamports')
+  private walletBalance = new Gauge('shh_node_wallet_balance_sol', 'Relay wallet SOL balance')
+  private walletTokenBalance = new Gauge('shh_node_wallet_token_balance', 'Relay wallet token balance in display units')
+  private walletActive = new Gauge('shh_node_wallet_active', 'Whether the relay wallet is above the minimum balance')
+  private rpcDuration = new Histogram('shh_node_rpc_request_duration_seconds', 'Solana RPC request latency', RPC_BUCKETS_SECONDS)
+  private rpcErrors = new Counter('shh_node_rpc_errors_total', 'Solana RPC requests that failed at the HTTP level')
+  private dispatcherErrors = new Counter('shh_node_dispatcher_errors_total', 'Dispatcher requests that failed or returned an error status')
+  private dispatcherClockOffset = new Gauge('shh_node_dispatcher_clock_offset_seconds', 'Dispatcher clock minus local clock, measured on connect')
+  private heartbeats = new Counter('shh_node_heartbeats_total', 'Heartbeats sent')
+  private heartbeatErrors = new Counter('shh_node_heartbeat_errors_total', 'Heartbeats that failed')
+  private uptime = new Gauge('shh_node_uptime_seconds', 'Node uptime in seconds')
+  
+  recordOfferReceived(asset: AssetSymbol): void {
+    this.offersReceived.inc({ asset })
   }
   
-  private executionTimes: number[] = []
-  private totalEarnings = 0
+  recordOfferAccepted(asset: AssetSymbol): void {
+    this.offersAccepted.inc({ asset })
+  }
   
-  recordOfferReceived(): void {
-    this.counters.offersReceived++
+  recordOfferCompleted(asset: AssetSymbol, outcome: ExecutionOutcome, executionTimeMs: number): void {
+    this.offersCompleted.inc({ asset, outcome })
+    if (outcome === 'confirmed') {
+      this.executionDuration.observe({ asset }, executionTimeMs / 1000)
+    }
   }
   
-  recordOfferAccepted(): void {
-    this.counters.offersAccepted++
+  recordOfferFailed(asset: AssetSymbol): void {
+    this.offersFailed.inc({ asset })
   }
   
-  recordOfferCompleted(executionTimeMs: number): void {
-    this.counters.offersCompleted++
-    this.executionTimes.push(executionTimeMs)
+  recordEarnings(solAmount: number): void {
+    this.earnings.inc({}, solAmount)
+  }
+  
+  recordReconciliation(reconciliation: EarningsReconciliation): void {
+    this.payoutsReceived.set({}, reconciliation.receivedLamports / LAMPORTS_PER_SOL)
+    this.earningsOutstanding.set({}, reconciliation.outstandingLamports / LAMPORTS_PER_SOL)
+  }
+  
+  recordPriorityFee(lamports: number): void {
+    this.priorityFees.inc({}, lamports)
+  }
+  
+  recordFingerprintFinding(kind: FingerprintFinding['kind']): void {
+    this.fingerprintFindings.inc({ kind })
+  }
+  
+  recordFeasibilityDecline(reason: FeasibilityDeclineReason): void {
+    this.feasibilityDeclines.inc({ reason })
+  }
+  
+  recordProfitabilityDecision(decision: ProfitabilityDecision): void {
+    this.lastMargin.set({}, decision.marginLamports)
+    this.profitabilityDecisions.inc({ decision: decision.accept ? 'accepted' : 'declined' })
+    if (decision.accept) {
+      this.estimatedMargin.inc({}, decision.marginLamports)
+    }
+  }
+  
+  recordWalletBalances(balances: WalletBalance[]): void {
+    this.walletBalance.reset()
+    this.walletTokenBalance.reset()
+    this.walletActive.reset()
     
-    // Keep only last 100 execution times for average calculation
-    if (this.executionTimes.length > 100) {
-      this.executionTimes.shift()
+    for (const wallet of balances) {
+      this.walletBalance.set({ wallet: wallet.publicKey }, wallet.balanceSOL)
+      this.walletActive.set({ wallet: wallet.publicKey }, wallet.isActive ? 1 : 0)
+      for (const [asset, balance] of Object.entries(wallet.tokenBalances ?? {})) {
+        this.walletTokenBalance.set({ wallet: wallet.publicKey, asset }, balance)
+      }
     }
   }
   
-  recordOfferFailed(): void {
-    this.counters.offersFailed++
+  recordRpcRequest(method: string, durationMs: number, failed: boolean): void {
+    this.rpcDuration.observe({ method }, durationMs / 1000)
+    if (failed) {
+      this.rpcErrors.inc({ method })
+    }
   }
   
-  recordEarnings(solAmount: number): void {
-    this.totalEarnings += solAmount
+  recordDispatcherError(endpoint: string, status: string): void {
+    this.dispatcherErrors.inc({ endpoint, status })
+  }
+  
+  recordDispatcherClockOffset(offsetMs: number): void {
+    this.dispatcherClockOffset.set({}, offsetMs / 1000)
   }
   
   recordHeartbeat(): void {
-    this.counters.heartbeats++
+    this.heartbeats.inc()
   }
   
   recordHeartbeatError(): void {
-    this.counters.heartbeatErrors++
+    this.heartbeatErrors.inc()
   }
   
   getSnapshot(): MetricsSnapshot {
-    const avgExecutionTime = this.executionTimes.length > 0
-      ? this.executionTimes.reduce((sum, time) => sum + time, 0) / this.executionTimes.length
-      : 0
+    const { sum, count } = this.executionDuration.totals()
+    const byLabel = (counter: Counter, label: string) => Object.fromEntries(
+      counter.values().map(({ labels, value }) => [labels[label], value])
+    )
     
     return {
-      offersReceived: this.counters.offersReceived,
-      offersAccepted: this.counters.offersAccepted,
-      offersCompleted: this.counters.offersCompleted,
-      offersFailed: this.counters.offersFailed,
-      avgExecutionTime: Math.round(avgExecutionTime),
-      totalEarnings: this.totalEarnings,
+      offersReceived: this.offersReceived.sum(),
+      offersAccepted: this.offersAccepted.sum(),
+      offersCompleted: this.offersCompleted.sum({ outcome: 'confirmed' }),
+      offersFailed: this.offersFailed.sum() + this.offersCompleted.sum() - this.offersCompleted.sum({ outcome: 'confirmed' }),
+      avgExecutionTime: count > 0 ? Math.round((sum / count) * 1000) : 0,
+      totalEarnings: this.earnings.sum(),
+      priorityFeesLamports: this.priorityFees.sum(),
+      fingerprintFindings: {
+        sibling_fraction: this.fingerprintFindings.get({ kind: 'sibling_fraction' }),
+        round_amount: this.fingerprintFindings.get({ kind: 'round_amount' })
+      },
+      feasibilityDeclines: byLabel(this.feasibilityDeclines, 'reason'),
+      profitability: {
+        accepted: this.profitabilityDecisions.get({ decision: 'accepted' }),
+        declined: this.profitabilityDecisions.get({ decision: 'declined' }),
+        estimatedMarginLamports: this.estimatedMargin.sum(),
+        lastMarginLamports: this.lastMargin.get()
+      },
       uptime: Date.now() - this.startTime
     }
   }
   
   getPrometheusMetrics(): string {
-    const snapshot = this.getSnapshot()
+    this.uptime.set({}, Math.floor((Date.now() - this.startTime) / 1000))
+    
+    const metrics = [
+      this.offersReceived,
+      this.offersAccepted,
+      this.offersCompleted,
+      this.offersFailed,
+      this.executionDuration,
+      this.earnings,
+      this.payoutsReceived,
+      this.earningsOutstanding,
+      this.priorityFees,
+      this.fingerprintFindings,
+      this.feasibilityDeclines,
+      this.profitabilityDecisions,
+      this.estimatedMargin,
+      this.lastMargin,
+      this.walletBalance,
+      this.walletTokenBalance,
+      this.walletActive,
+      this.rpcDuration,
+      this.rpcErrors,
+      this.dispatcherErrors,
+      this.dispatcherClockOffset,
+      this.heartbeats,
+      this.heartbeatErrors,
+      this.uptime
+    ]
     
-    return [
-      `# HELP shh_node_offers_total Total number of offers processed`,
-      `# TYPE shh_node_offers_total counter`,
-      `shh_node_offers_received_total ${snapshot.offersReceived}`,
-      `shh_node_offers_accepted_total ${snapshot.offersAccepted}`,
-      `shh_node_offers_completed_total ${snapshot.offersCompleted}`,
-      `shh_node_offers_failed_total ${snapshot.offersFailed}`,
-      ``,
-      `# HELP shh_node_execution_time_avg Average execution time in milliseconds`,
-      `# TYPE shh_node_execution_time_avg gauge`,
-      `shh_node_execution_time_avg ${snapshot.avgExecutionTime}`,
-      ``,
-      `# HELP shh_node_earnings_total Total SOL earnings`,
-      `# TYPE shh_node_earnings_total counter`,
-      `shh_node_earnings_total ${snapshot.totalEarnings}`,
-      ``,
-      `# HELP shh_node_uptime_seconds Node uptime in seconds`,
-      `# TYPE shh_node_uptime_seconds gauge`,
-      `shh_node_uptime_seconds ${Math.floor(snapshot.uptime / 1000)}`,
-      ``,
-      `# HELP shh_node_heartbeats_total Total heartbeats sent`,
-      `# TYPE shh_node_heartbeats_total counter`,
-      `shh_node_heartbeats_total ${this.counters.heartbeats}`,
-      `shh_node_heartbeat_errors_total ${this.counters.heartbeatErrors}`
-    ].join('\n')
-  }
-}
\ No newline at end of file
+    // Exposition format requires a trailing newline
+    return metrics.map(metric => metric.render().join('\n')).join('\n\n') + '\n'
+  }
+}
@@ -0,0 +1,49 @@
+import net from 'net'
+import { MetricsServer } from './MetricsServer'
+
+async function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer()
+    probe.listen(0, () => {
+      const address = probe.address()
+      probe.close(() => address && typeof address === 'object' ? resolve(address.port) : reject(new Error('No port')))
+    })
+  })
+}
+
+describe('MetricsServer', () => {
+  const env = process.env
+  let server: MetricsServer | null = null
+  
+  beforeEach(() => {
+    process.env = { ...env, LOG_LEVEL: 'error' }
+  })
+  
+  afterEach(async () => {
+    await server?.stop()
+    server = null
+    process.env = env
+  })
+  
+  async function scrape(getMetrics: () => string): Promise<Response> {
+    server = new MetricsServer(await freePort(), getMetrics)
+    await server.start()
+    return fetch(`http://127.0.0.1:${server.getPort()}/metrics`)
+  }
+  
+  it('serves rendered metrics', async () => {
+    const response = await scrape(() => 'shh_node_up 1\n')
+    
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe('shh_node_up 1\n')
+  })
+  
+  it('answers 500 when rendering fails', async () => {
+    const response = await scrape(() => {
+      throw new Error('registry unavailable')
+    })
+    
+    expect(response.status).toBe(500)
+    expect(await response.text()).toBe('Failed to render metrics\n')
+  })
+})
@@ -0,0 +1,70 @@
+import http from 'http'
+import { Logger } from '../utils/Logger'
+
+export class MetricsServer {
+  private logger = new Logger('MetricsServer')
+  private server?: http.Server
+  private port: number
+  private getMetrics: () => string
+  
+  constructor(port: number, getMetrics: () => string) {
+    this.port = port
+    this.getMetrics = getMetrics
+  }
+  
+  getPort(): number {
+    return this.port
+  }
+  
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer(this.handleRequest.bind(this))
+      
+      this.server.listen(this.port, () => {
+        this.logger.info(`📈 Metrics server listening on port ${this.port}`)
+        resolve()
+      })
+      
+      this.server.on('error', (error) => {
+        this.logger.error('Metrics server error:', error)
+        reject(error)
+      })
+    })
+  }
+  
+  async stop(): Promise<void> {
+    if (!this.server) return
+    
+    return new Promise((resolve) => {
+      this.server!.close(() => {
+        this.logger.info('📈 Metrics server stopped')
+        resolve()
+      })
+    })
+  }
+  
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const pathname = (req.url || '/').split('?')[0]
+    
+    if (req.method !== 'GET' || pathname !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' })
+      res.end('Not found, metrics are served at /metrics\n')
+      return
+    }
+    
+    try {
+      // Render before writing the head, so a rendering failure can still be answered with a 500
+      const body = this.getMetrics()
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+      res.end(body)
+    } catch (error) {
+      this.logger.error('Failed to render metrics:', error)
+      if (res.headersSent) {
+        res.destroy()
+        return
+      }
+      res.writeHead(500, { 'Content-Type': 'text/plain' })
+      res.end('Failed to render metrics\n')
+    }
+  }
+}
@@ -0,0 +1,157 @@
+// Minimal Prometheus text exposition format (version 0.0.4) primitives
+
+export type Labels = Record<string, string>
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+// Series are keyed by their rendered label set so label order doesn't matter
+function seriesKey(labels: Labels): string {
+  return formatLabels(Object.fromEntries(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))))
+}
+
+abstract class Metric {
+  readonly name: string
+  private help: string
+  private type: 'counter' | 'gauge' | 'histogram'
+  
+  constructor(name: string, help: string, type: 'counter' | 'gauge' | 'histogram') {
+    this.name = name
+    this.help = help
+    this.type = type
+  }
+  
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSamples()]
+  }
+  
+  protected abstract renderSamples(): string[]
+}
+
+export class Counter extends Metric {
+  private series = new Map<string, { labels: Labels; value: number }>()
+  
+  constructor(name: string, help: string) {
+    super(name, help, 'counter')
+  }
+  
+  inc(labels: Labels = {}, value = 1): void {
+    const key = seriesKey(labels)
+    const existing = this.series.get(key)
+    if (existing) {
+      existing.value += value
+    } else {
+      this.series.set(key, { labels, value })
+    }
+  }
+  
+  get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0
+  }
+  
+  // Sum across every series whose labels include the given ones
+  sum(match: Labels = {}): number {
+    let total = 0
+    for (const { labels, value } of this.series.values()) {
+      if (Object.entries(match).every(([key, expected]) => labels[key] === expected)) {
+        total += value
+      }
+    }
+    return total
+  }
+  
+  values(): Array<{ labels: Labels; value: number }> {
+    return Array.from(this.series.values())
+  }
+  
+  protected renderSamples(): string[] {
+    return this.values().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+  }
+}
+
+export class Gauge extends Metric {
+  private series = new Map<string, { labels: Labels; value: number }>()
+  
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge')
+  }
+  
+  set(labels: Labels, value: number): void {
+    this.series.set(seriesKey(labels), { labels, value })
+  }
+  
+  get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0
+  }
+  
+  // Drop all series, e.g. before re-populating per-wallet gauges so removed wallets disappear
+  reset(): void {
+    this.series.clear()
+  }
+  
+  protected renderSamples(): string[] {
+    return Array.from(this.series.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels
+  bucketCounts: number[]
+  sum: number
+  count: number
+}
+
+export class Histogram extends Metric {
+  private buckets: number[]
+  private series = new Map<string, HistogramSeries>()
+  
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help, 'histogram')
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+  
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+    
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.bucketCounts[index]!++
+    })
+    series.sum += value
+    series.count++
+  }
+  
+  // Sum and count across every series, for summary figures such as an overall average
+  totals(): { sum: number; count: number } {
+    let sum = 0
+    let count = 0
+    for (const series of this.series.values()) {
+      sum += series.sum
+      count += series.count
+    }
+    return { sum, count }
+  }
+  
+  protected renderSamples(): string[] {
+    const lines: string[] = []
+    for (const { labels, bucketCounts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${bucketCounts[index]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
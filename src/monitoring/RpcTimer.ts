@@ -0,0 +1,29 @@
+import { Metrics } from './Metrics'
+
+// JSON-RPC method of a request body, or 'batch' / 'unknown' when there isn't a single one
+function rpcMethod(body: unknown): string {
+  if (typeof body !== 'string') return 'unknown'
+  try {
+    const parsed = JSON.parse(body)
+    return Array.isArray(parsed) ? 'batch' : String(parsed.method ?? 'unknown')
+  } catch {
+    return 'unknown'
+  }
+}
+
+// A fetch for the Solana Connection that records latency and HTTP-level failures per RPC method
+export function timedRpcFetch(metrics: Metrics): typeof fetch {
+  return async (input, init) => {
+    const method = rpcMethod(init?.body)
+    const start = Date.now()
+    
+    try {
+      const response = await fetch(input, init)
+      metrics.recordRpcRequest(method, Date.now() - start, !response.ok)
+      return response
+    } catch (error) {
+      metrics.recordRpcRequest(method, Date.now() - start, true)
+      throw error
+    }
+  }
+}
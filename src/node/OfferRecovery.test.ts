@@ -0,0 +1,126 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { OfferRecovery } from './OfferRecovery'
+import { DispatcherClient } from '../api/DispatcherClient'
+import { OfferJournal } from '../persistence/OfferJournal'
+import { SpendLedger } from '../limits/SpendLedger'
+import { EarningsLedger } from '../earnings/EarningsLedger'
+import { SpendAccountant } from '../execution/SpendAccountant'
+import { WalletManager } from '../wallet/WalletManager'
+import { TokenRegistry } from '../tokens/TokenRegistry'
+import { LocalSigner } from '../signing/LocalSigner'
+import { reloadConfig } from '../utils/Config'
+import { Offer } from '../types'
+
+const OFFER: Offer = {
+  id: 'offer-1',
+  partId: 'part-1',
+  asset: 'SOL',
+  amount: '10000000',
+  recipient: '11111111111111111111111111111111',
+  feeLamports: 50000
+}
+
+describe('OfferRecovery nonce accounts', () => {
+  const env = process.env
+  let dir: string
+  let journal: OfferJournal
+  let walletManager: WalletManager
+  let recovery: OfferRecovery
+  let signatureStatus: { confirmationStatus: string; err: unknown } | null
+  let nonceAccount: PublicKey
+  const relay = Keypair.generate()
+  
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'offer-recovery-test-'))
+    process.env = {
+      ...env,
+      LOG_LEVEL: 'error',
+      DATA_DIR: dir,
+      SHH_DISPATCHER_SIGNING_KEYS: JSON.stringify([Keypair.generate().publicKey.toString()])
+    }
+    
+    const config = reloadConfig()
+    config.nonce.enabled = true
+    walletManager = new WalletManager(config, new TokenRegistry(config), new LocalSigner(Keypair.generate(), [relay], null))
+    
+    // The relay's nonce account already exists on-chain, authorized by the relay
+    await walletManager.setupNonceAccounts({
+      getAccountInfo: async () => ({}),
+      getNonce: async () => ({ authorizedPubkey: relay.publicKey })
+    } as unknown as Connection)
+    nonceAccount = walletManager.acquireNonceAccount(relay.publicKey)!
+    walletManager.releaseNonceAccount(nonceAccount)
+    
+    // A transfer signed against the nonce account and broadcast, then the node restarted
+    journal = new OfferJournal(join(dir, 'offer-journal.jsonl'))
+    journal.recordAccepted(OFFER)
+    journal.record(OFFER.id, 'broadcast', {
+      signature: 'signature-1',
+      relayWallet: relay.publicKey.toString(),
+      nonceAccount: nonceAccount.toString(),
+      nonce: 'nonce-1'
+    })
+    
+    signatureStatus = { confirmationStatus: 'processed', err: null }
+    const connection = {
+      getSignatureStatus: async () => ({ value: signatureStatus })
+    } as unknown as Connection
+    const dispatcher = {
+      submitReceipt: async () => 'acknowledged'
+    } as unknown as DispatcherClient
+    const accountant = {
+      account: async () => null,
+      toReceiptFields: () => ({})
+    } as unknown as SpendAccountant
+    
+    recovery = new OfferRecovery(
+      connection,
+      dispatcher,
+      journal,
+      new SpendLedger(config.limits, join(dir, 'spend-ledger.json')),
+      accountant,
+      new EarningsLedger(join(dir, 'earnings-ledger.jsonl'), join(dir, 'payouts.json')),
+      walletManager
+    )
+  })
+  
+  afterEach(() => {
+    process.env = env
+    rmSync(dir, { recursive: true, force: true })
+  })
+  
+  it('holds the nonce account of an in-flight transfer so a new transfer cannot sign against it', () => {
+    recovery.holdInFlightNonces()
+    
+    expect(walletManager.acquireNonceAccount(relay.publicKey)).toBeNull()
+  })
+  
+  it('keeps holding the nonce account while the transfer is unresolved', async () => {
+    recovery.holdInFlightNonces()
+    
+    await expect(recovery.reconcile()).resolves.toBe(1)
+    
+    expect(walletManager.acquireNonceAccount(relay.publicKey)).toBeNull()
+  })
+  
+  it('releases the nonce account once the transfer has landed', async () => {
+    recovery.holdInFlightNonces()
+    signatureStatus = { confirmationStatus: 'confirmed', err: null }
+    
+    await expect(recovery.reconcile()).resolves.toBe(0)
+    
+    expect(walletManager.acquireNonceAccount(relay.publicKey)?.equals(nonceAccount)).toBe(true)
+    expect(journal.getUnfinished()).toEqual([])
+  })
+  
+  it('leaves nonce accounts of finished transfers free', () => {
+    journal.record(OFFER.id, 'receipt_submitted')
+    
+    recovery.holdInFlightNonces()
+    
+    expect(walletManager.acquireNonceAccount(relay.publicKey)?.equals(nonceAccount)).toBe(true)
+  })
+})
@@ -0,0 +1,177 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import { DispatcherClient } from '../api/DispatcherClient'
+import { OfferJournal } from '../persistence/OfferJournal'
+import { SpendLedger } from '../limits/SpendLedger'
+import { EarningsLedger } from '../earnings/EarningsLedger'
+import { WalletManager } from '../wallet/WalletManager'
+import { ExecutionOutcome, ExecutionReceipt, JournalEntry, SpendAccounting, TransactionLifetime } from '../types'
+import { isLifetimeExpired } from '../execution/TransactionSender'
+import { SpendAccountant } from '../execution/SpendAccountant'
+import { Logger } from '../utils/Logger'
+
+export class OfferRecovery {
+  private logger = new Logger('OfferRecovery')
+  private connection: Connection
+  private dispatcher: DispatcherClient
+  private journal: OfferJournal
+  private spendLedger: SpendLedger
+  private accountant: SpendAccountant
+  private earnings: EarningsLedger
+  private walletManager: WalletManager
+  
+  constructor(
+    connection: Connection,
+    dispatcher: DispatcherClient,
+    journal: OfferJournal,
+    spendLedger: SpendLedger,
+    accountant: SpendAccountant,
+    earnings: EarningsLedger,
+    walletManager: WalletManager
+  ) {
+    this.connection = connection
+    this.dispatcher = dispatcher
+    this.journal = journal
+    this.spendLedger = spendLedger
+    this.accountant = accountant
+    this.earnings = earnings
+    this.walletManager = walletManager
+  }
+  
+  // After a restart, keep nonce accounts of transfers that may still land out of use until resolved
+  holdInFlightNonces(): void {
+    for (const entry of this.journal.getUnfinished()) {
+      if (entry.signature && entry.nonceAccount) {
+        this.walletManager.holdNonceAccount(new PublicKey(entry.nonceAccount))
+      }
+    }
+  }
+  
+  // Returns the number of entries that are still unresolved
+  async reconcile(skipOfferIds: Set<string> = new Set()): Promise<number> {
+    const entries = this.journal.getUnfinished().filter(entry => !skipOfferIds.has(entry.offer.id))
+    if (entries.length === 0) return 0
+    
+    this.logger.info(`🔁 Reconciling ${entries.length} unfinished offers from journal...`)
+    let unresolved = 0
+    
+    for (const entry of entries) {
+      try {
+        const receipt = await this.resolve(entry)
+        if (!receipt) {
+          unresolved++
+          continue
+        }
+        
+        // Landed or provably dead: the nonce has advanced, so the account can sign the next transfer
+        if (entry.nonceAccount) {
+          this.walletManager.releaseNonceAccount(new PublicKey(entry.nonceAccount))
+        }
+        
+        if (receipt.success) {
+          this.earnings.record(entry.offer, receipt, entry.relayWallet ?? 'unknown')
+        } else {
+          this.spendLedger.release(entry.offer.id)
+        }
+        
+        // An unverified acknowledgment is final too: resubmitting can't make it verify
+        const outcome = await this.dispatcher.submitReceipt(receipt)
+        this.journal.record(entry.offer.id, outcome === 'acknowledged' ? 'receipt_submitted' : 'ack_unverified')
+        this.logger.info(`✅ Recovered offer ${entry.offer.id} (${receipt.success ? 'landed' : 'not landed'})`)
+      } catch (error) {
+        unresolved++
+        this.logger.warn(`Failed to reconcile offer ${entry.offer.id}, will retry:`, error)
+      }
+    }
+    
+    return unresolved
+  }
+  
+  // Work out the final receipt for an entry, or null if the outcome isn't known yet
+  private async resolve(entry: JournalEntry): Promise<ExecutionReceipt | null> {
+    if (!entry.signature) {
+      // Nothing was ever signed, so no funds can have moved
+      return entry.receipt ?? this.failureReceipt(entry, 'failed', 'Node restarted before the transfer was signed')
+    }
+    
+    const { value: status } = await this.connection.getSignatureStatus(entry.signature, {
+      searchTransactionHistory: true
+    })
+    
+    if (status && status.confirmationStatus === 'processed') {
+      // Seen by the cluster but not yet confirmed; check again later
+      return null
+    }
+    
+    if (status) {
+      if (entry.receipt?.success) {
+        return entry.receipt
+      }
+      
+      const accounting = entry.relayWallet
+        ? await this.accountant.account(entry.signature, entry.offer, entry.relayWallet)
+        : null
+      
+      if (status.err) {
+        return this.failureReceipt(entry, 'failed', `Transaction failed on-chain: ${JSON.stringify(status.err)}`, accounting)
+      }
+      
+      const receipt: ExecutionReceipt = {
+        partId: entry.offer.partId,
+        txSignature: entry.signature,
+        spentLamports: accounting?.spentLamports ?? entry.spentLamports ?? 0,
+        feePaid: accounting?.networkFeeLamports ?? 0,
+        timestamp: Date.now(),
+        success: true,
+        outcome: 'confirmed',
+        ...(accounting && this.accountant.toReceiptFields(accounting))
+      }
+      this.journal.record(entry.offer.id, 'confirmed', { receipt })
+      return receipt
+    }
+    
+    // Not visible yet: it can only still land until its blockhash or nonce is provably dead
+    const lifetime = this.getLifetime(entry)
+    if (!lifetime || !await isLifetimeExpired(this.connection, lifetime)) {
+      if (entry.rawTransaction) {
+        // Re-sending the exact signed bytes is idempotent: it can land at most once
+        await this.connection.sendRawTransaction(Buffer.from(entry.rawTransaction, 'base64'), {
+          skipPreflight: true,
+          maxRetries: 0
+        })
+      }
+      this.logger.info(`⏳ Offer ${entry.offer.id} (${entry.signature}) may still land, waiting for it to land or expire`)
+      return null
+    }
+    
+    return this.failureReceipt(entry, 'expired', 'Transaction expired without landing')
+  }
+  
+  private getLifetime(entry: JournalEntry): TransactionLifetime | null {
+    if (entry.nonceAccount && entry.nonce) {
+      return { kind: 'nonce', nonceAccount: entry.nonceAccount, nonce: entry.nonce }
+    }
+    if (entry.lastValidBlockHeight !== undefined) {
+      return { kind: 'blockhash', lastValidBlockHeight: entry.lastValidBlockHeight }
+    }
+    return null
+  }
+  
+  private failureReceipt(
+    entry: JournalEntry,
+    outcome: ExecutionOutcome,
+    error: string,
+    accounting: SpendAccounting | null = null
+  ): ExecutionReceipt {
+    return {
+      partId: entry.offer.partId,
+      txSignature: entry.signature ?? '',
+      spentLamports: accounting?.spentLamports ?? 0,
+      feePaid: accounting?.networkFeeLamports ?? 0,
+      timestamp: Date.now(),
+      success: false,
+      error,
+      outcome,
+      ...(accounting && this.accountant.toReceiptFields(accounting))
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { Connection, Keypair } from '@solana/web3.js'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ShhNode } from './ShhNode'
+import { MockDispatcher } from '../testing/MockDispatcher'
+import { LocalSigner } from '../signing/LocalSigner'
+import { SpendLedger } from '../limits/SpendLedger'
+import { WalletManager } from '../wallet/WalletManager'
+import { PayoutScanner } from '../earnings/PayoutScanner'
+import { TransactionExecutor } from '../execution/TransactionExecutor'
+import { ProfitabilityEvaluator } from '../pricing/ProfitabilityEvaluator'
+import { ExecutionScheduler } from '../privacy/ExecutionScheduler'
+import { DispatcherClient } from '../api/DispatcherClient'
+import { reloadConfig } from '../utils/Config'
+import { NodeConfig, ProfitabilityDecision } from '../types'
+
+const PROFITABLE: ProfitabilityDecision = {
+  accept: true,
+  feeLamports: 50000,
+  cost: { baseFeeLamports: 5000, priorityFeeLamports: 0, ataRentLamports: 0, totalLamports: 5000 },
+  marginLamports: 45000
+}
+
+// Stands in for simulation and fee estimation: real RPC round trips that let other offers interleave
+function slowly<T>(value: T): () => Promise<T> {
+  return () => new Promise(resolve => setTimeout(() => resolve(value), 50))
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition')
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+describe('ShhNode offer intake', () => {
+  const env = process.env
+  let mock: MockDispatcher
+  let node: ShhNode
+  let config: NodeConfig
+  let dataDir: string
+  let evaluate: jest.SpiedFunction<ProfitabilityEvaluator['evaluate']>
+  let acceptOffer: jest.SpiedFunction<DispatcherClient['acceptOffer']>
+  
+  beforeEach(async () => {
+    process.env = { ...env, LOG_LEVEL: 'error' }
+    mock = new MockDispatcher({ port: 0 })
+    await mock.start()
+    
+    dataDir = mkdtempSync(join(tmpdir(), 'shh-node-test-'))
+    Object.assign(process.env, {
+      DATA_DIR: dataDir,
+      DISPATCHER_URL: mock.url,
+      SHH_DISPATCHER_SIGNING_KEYS: JSON.stringify([mock.signingPublicKey]),
+      SOLANA_CLUSTER: 'devnet',
+      OFFER_TRANSPORT: 'poll',
+      OFFER_POLL_INTERVAL_MS: '25'
+    })
+    
+    config = reloadConfig()
+    config.monitoring.healthCheckPort = 0
+    config.monitoring.enableMetrics = false
+    
+    // No RPC here: the chain-facing steps of start() and offer evaluation are stubbed
+    jest.spyOn(Connection.prototype, 'getSlot').mockResolvedValue(1)
+    jest.spyOn(WalletManager.prototype, 'validateBalances').mockResolvedValue()
+    jest.spyOn(WalletManager.prototype, 'getBalances').mockResolvedValue([])
+    jest.spyOn(PayoutScanner.prototype, 'sync').mockResolvedValue()
+    jest.spyOn(TransactionExecutor.prototype, 'checkFeasibility').mockImplementation(slowly({ feasible: true }))
+    evaluate = jest.spyOn(ProfitabilityEvaluator.prototype, 'evaluate').mockImplementation(slowly(PROFITABLE))
+    acceptOffer = jest.spyOn(DispatcherClient.prototype, 'acceptOffer')
+    
+    // Only acceptance is under test; never go on to move funds
+    jest.spyOn(ExecutionScheduler.prototype, 'waitForSlot').mockResolvedValue(false)
+  })
+  
+  afterEach(async () => {
+    await node.stop()
+    jest.restoreAllMocks()
+    await mock.stop()
+    rmSync(dataDir, { recursive: true, force: true })
+    process.env = env
+  })
+  
+  // Publish the offers before starting, so the first poll delivers them together
+  async function receiveConcurrently(count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      mock.addOffer({ amount: '12345678' })
+    }
+    
+    node = new ShhNode(new LocalSigner(Keypair.generate(), [Keypair.generate(), Keypair.generate()], null), config)
+    await node.start()
+    
+    await waitFor(() => evaluate.mock.calls.length === count)
+    await Promise.all(evaluate.mock.results.map(result => result.value))
+    // Let every offer decline or send its accept, then let the accepts complete
+    await new Promise(resolve => setTimeout(resolve, 20))
+    await Promise.allSettled(acceptOffer.mock.results.map(result => result.value))
+  }
+  
+  it('accepts no more parts than the hourly limit when offers arrive together', async () => {
+    config.limits.maxPartsPerHour = 2
+    
+    await receiveConcurrently(5)
+    
+    expect(mock.acceptances).toHaveLength(2)
+  })
+  
+  it('accepts no more than the daily lamport limit when offers arrive together', async () => {
+    config.limits.perTxLamports = 20000000
+    config.limits.perDayLamports = 30000000
+    
+    await receiveConcurrently(5)
+    
+    expect(mock.acceptances).toHaveLength(2)
+  })
+  
+  it('accepts no more offers than maxConcurrent when offers arrive together', async () => {
+    config.node.maxConcurrent = 3
+    
+    await receiveConcurrently(6)
+    
+    expect(mock.acceptances).toHaveLength(3)
+  })
+  
+  it('keeps the reservation of every accepted offer', async () => {
+    config.limits.maxPartsPerHour = 2
+    
+    await receiveConcurrently(4)
+    
+    const ledger = new SpendLedger(config.limits, join(dataDir, 'spend-ledger.json'))
+    ledger.load()
+    expect(ledger.getUtilization().partsLastHour).toBe(2)
+  })
+})
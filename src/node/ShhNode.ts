@@ -1,16 +1,32 @@
-import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js'
 import { DispatcherClient } from '../api/DispatcherClient'
 import { TransactionExecutor } from '../execution/TransactionExecutor'
+import { createFeePayer } from '../execution/FeePayer'
 import { WalletManager } from '../wallet/WalletManager'
+import { Signer } from '../signing/Signer'
 import { Logger } from '../utils/Logger'
 import { Metrics } from '../monitoring/Metrics'
 import { HealthServer } from '../monitoring/HealthServer'
-import { loadConfig } from '../utils/Config'
-import { Offer, OfferAcceptance, ExecutionReceipt } from '../types'
+import { AdminServer } from '../admin/AdminServer'
+import { MetricsServer } from '../monitoring/MetricsServer'
+import { timedRpcFetch } from '../monitoring/RpcTimer'
+import { OfferJournal } from '../persistence/OfferJournal'
+import { OfferRecovery } from './OfferRecovery'
+import { SpendLedger } from '../limits/SpendLedger'
+import { EarningsLedger } from '../earnings/EarningsLedger'
+import { PayoutScanner } from '../earnings/PayoutScanner'
+import { ExecutionScheduler } from '../privacy/ExecutionScheduler'
+import { SiblingGuard } from '../privacy/SiblingGuard'
+import { AmountAnalyzer } from '../privacy/AmountAnalyzer'
+import { TokenRegistry } from '../tokens/TokenRegistry'
+import { ProfitabilityEvaluator } from '../pricing/ProfitabilityEvaluator'
+import { SpendAccountant } from '../execution/SpendAccountant'
+import { HOT_RELOADABLE_SECTIONS, loadConfig, reloadConfig } from '../utils/Config'
+import { AdminOffer, IntakeState, NodeConfig, Offer, OfferAcceptance, WalletBalance } from '../types'
 
 export class ShhNode {
   private logger = new Logger('ShhNode')
-  private config = loadConfig()
+  private config: NodeConfig
   
   private connection: Connection
   private dispatcher: DispatcherClient
@@ -18,37 +34,123 @@ export class ShhNode {
   private walletManager: WalletManager
   private metrics: Metrics
   private healthServer: HealthServer
+  private metricsServer: MetricsServer | null = null
+  private adminServer: AdminServer | null = null
+  private journal: OfferJournal
+  private recovery: OfferRecovery
+  private spendLedger: SpendLedger
+  private earnings: EarningsLedger
+  private payoutScanner: PayoutScanner
+  private scheduler: ExecutionScheduler
+  private siblingGuard: SiblingGuard
+  private amountAnalyzer: AmountAnalyzer
+  private tokenRegistry: TokenRegistry
+  private profitability: ProfitabilityEvaluator
   
   private isRunning = false
+  private intake: IntakeState = 'accepting'
   private activeOffers = new Map<string, Offer>()
+  // Offers holding a spend reservation while their accept request is in flight
+  private pendingAccepts = new Set<string>()
   private heartbeatInterval?: NodeJS.Timeout
   
-  constructor() {
+  constructor(signer: Signer, config: NodeConfig = loadConfig()) {
+    this.config = config
+    
+    // Apply log format, file and rotation before anything else logs
+    Logger.configure(this.config.monitoring.logRotation)
+    
+    // Initialize metrics first so RPC and dispatcher calls can be measured
+    this.metrics = new Metrics()
+    
     // Initialize Solana connection
     this.connection = new Connection(
       process.env.RPC_URL || 'https://api.devnet.solana.com',
-      { commitment: process.env.RPC_COMMITMENT as any || 'confirmed' }
+      {
+        commitment: process.env.RPC_COMMITMENT as any || 'confirmed',
+        fetch: timedRpcFetch(this.metrics)
+      }
     )
     
+    // Initialize token registry (resolved against the cluster on start)
+    this.tokenRegistry = new TokenRegistry(this.config)
+    
     // Initialize wallet manager
-    this.walletManager = new WalletManager()
+    this.walletManager = new WalletManager(this.config, this.tokenRegistry, signer)
     
     // Initialize dispatcher client
     this.dispatcher = new DispatcherClient(
       process.env.DISPATCHER_URL || 'https://dispatcher.dev.shh.cash',
-      this.walletManager.nodeKeypair
+      signer,
+      this.config,
+      this.metrics
     )
     
     // Initialize transaction executor
     this.executor = new TransactionExecutor(
       this.connection,
       this.walletManager,
-      this.config
+      signer,
+      this.config,
+      createFeePayer(this.walletManager.feePayerMode, this.walletManager, this.dispatcher),
+      this.tokenRegistry
+    )
+    
+    // Initialize offer profitability evaluator
+    this.profitability = new ProfitabilityEvaluator(
+      this.connection,
+      this.config,
+      this.tokenRegistry,
+      this.walletManager.feePayerMode
+    )
+    
+    // Initialize crash-safe offer journal
+    this.journal = new OfferJournal()
+    this.spendLedger = new SpendLedger(this.config.limits)
+    this.earnings = new EarningsLedger()
+    this.recovery = new OfferRecovery(
+      this.connection,
+      this.dispatcher,
+      this.journal,
+      this.spendLedger,
+      new SpendAccountant(this.connection, this.tokenRegistry, this.walletManager.feePayerMode),
+      this.earnings,
+      this.walletManager
+    )
+    
+    // Payouts land on PAYOUT_ADDRESS, by default the node's own identity key
+    this.payoutScanner = new PayoutScanner(
+      this.connection,
+      this.earnings,
+      new PublicKey(process.env.PAYOUT_ADDRESS || signer.nodePublicKey),
+      [signer.nodePublicKey, ...signer.relayPublicKeys, ...(signer.feePayerPublicKey ? [signer.feePayerPublicKey] : [])]
     )
     
+    // Initialize privacy delay scheduler and sibling-part guard
+    this.siblingGuard = new SiblingGuard(this.config)
+    this.scheduler = new ExecutionScheduler(this.config, this.siblingGuard, this.journal)
+    this.amountAnalyzer = new AmountAnalyzer(this.config, this.tokenRegistry)
+    
     // Initialize monitoring
-    this.metrics = new Metrics()
-    this.healthServer = new HealthServer(this.getHealthStatus.bind(this))
+    this.healthServer = new HealthServer(this.config.monitoring.healthCheckPort, this.getHealthStatus.bind(this))
+    if (this.config.monitoring.enableMetrics) {
+      this.metricsServer = new MetricsServer(
+        this.config.monitoring.metricsPort,
+        this.metrics.getPrometheusMetrics.bind(this.metrics)
+      )
+    }
+    if (this.config.admin.enabled) {
+      this.adminServer = new AdminServer(this.config, {
+        getIntakeState: () => this.intake,
+        pause: () => this.pauseIntake(),
+        resume: () => this.resumeIntake(),
+        drain: () => this.drain(),
+        listOffers: () => this.listOffers(),
+        deactivateWallet: (publicKey) => this.walletManager.deactivateWallet(publicKey),
+        activateWallet: (publicKey) => this.walletManager.activateWallet(publicKey),
+        refreshBalances: () => this.refreshBalances()
+      })
+    }
   }
   
   async start(): Promise<void> {
@@ -58,21 +160,40 @@ export class ShhNode {
     
     this.logger.info('🔌 Connecting to Solana RPC...')
     await this.validateConnection()
+    await this.tokenRegistry.init(this.connection)
     
     this.logger.info('🔑 Validating wallet balances...')
+    this.walletManager.load()
     await this.walletManager.validateBalances(this.connection)
+    await this.walletManager.setupNonceAccounts(this.connection)
     
     this.logger.info('📡 Connecting to dispatcher...')
     await this.dispatcher.connect()
     
+    this.logger.info('📒 Recovering unfinished offers...')
+    this.journal.load()
+    this.spendLedger.load()
+    this.earnings.load()
+    this.metrics.recordEarnings(this.earnings.getTotalFeeLamports() / LAMPORTS_PER_SOL)
+    this.siblingGuard.load()
+    this.recovery.holdInFlightNonces()
+    this.resumeScheduledOffers()
+    await this.recovery.reconcile(new Set(this.activeOffers.keys()))
+    await this.syncPayouts()
+    
     this.logger.info('📊 Starting monitoring servers...')
     await this.healthServer.start()
+    await this.metricsServer?.start()
+    await this.adminServer?.start()
     
     this.logger.info('💓 Starting heartbeat...')
     this.startHeartbeat()
     
     this.logger.info('🎯 Subscribing to offers...')
-    this.dispatcher.onOffer(this.handleOffer.bind(this))
+    this.dispatcher.onOffer(offer => Logger.runWithContext(
+      { offerId: offer.id, ...(offer.metadata && { requestId: offer.metadata.requestId }) },
+      () => this.handleOffer(offer)
+    ))
     await this.dispatcher.subscribeToOffers()
     
     this.isRunning = true
@@ -90,6 +211,12 @@ export class ShhNode {
       clearInterval(this.heartbeatInterval)
     }
     
+    // Parts still waiting on their privacy delay stay journaled as accepted and resume on restart
+    const deferred = this.scheduler.cancelAll()
+    if (deferred > 0) {
+      this.logger.info(`⏸️  Left ${deferred} scheduled offers journaled, they resume on the next start`)
+    }
+    
     // Wait for active offers to complete
     if (this.activeOffers.size > 0) {
       this.logger.info(`⏳ Waiting for ${this.activeOffers.size} active offers to complete...`)
@@ -102,10 +229,102 @@ export class ShhNode {
     
     // Stop monitoring
     await this.healthServer.stop()
+    await this.metricsServer?.stop()
+    await this.adminServer?.stop()
     
     this.logger.info('✅ SHH Node stopped')
   }
   
+  // Re-read config.json and env overrides, applying only the sections that are safe to change while
+  // running; offers already accepted keep their reservations and scheduled slots
+  reloadConfig(): void {
+    let next: NodeConfig
+    try {
+      next = reloadConfig()
+    } catch (error) {
+      this.logger.error('❌ Config reload rejected, keeping current config:', error)
+      return
+    }
+    
+    const previousStrategy = this.config.rotation.strategy
+    Object.assign(this.config, Object.fromEntries(HOT_RELOADABLE_SECTIONS.map(section => [section, next[section]])))
+    this.spendLedger.setLimits(this.config.limits)
+    this.walletManager.reloadRotationStrategy(previousStrategy)
+    
+    const restartRequired = Object.keys(next).filter(section =>
+      JSON.stringify(next[section as keyof NodeConfig]) !== JSON.stringify(this.config[section as keyof NodeConfig])
+    )
+    if (restartRequired.length > 0) {
+      this.logger.warn(`⚠️  Changes to ${restartRequired.join(', ')} take effect after a restart`)
+    }
+    
+    this.logger.info(`🔄 Config reloaded (${HOT_RELOADABLE_SECTIONS.join(', ')})`)
+  }
+  
+  getMonitoringEndpoints(): { health: string; metrics: string | null; admin: string | null } {
+    return {
+      health: `http://localhost:${this.healthServer.getPort()}/health`,
+      metrics: this.metricsServer ? `http://localhost:${this.metricsServer.getPort()}/metrics` : null,
+      admin: this.adminServer ? `http://${this.config.admin.host}:${this.adminServer.getPort()}/admin` : null
+    }
+  }
+  
+  // Stop accepting new offers; accepted ones still run at their scheduled slots
+  private pauseIntake(): void {
+    if (this.intake === 'draining' || this.intake === 'drained') {
+      throw new Error(`Node is ${this.intake}, resume it first`)
+    }
+    this.intake = 'paused'
+    this.logger.warn('⏸️  Offer intake paused')
+  }
+  
+  private resumeIntake(): void {
+    this.intake = 'accepting'
+    this.logger.info('▶️  Offer intake resumed')
+  }
+  
+  // Stop intake and let every accepted offer finish, so the node can then be stopped with nothing in flight
+  private drain(): void {
+    this.intake = this.activeOffers.size > 0 ? 'draining' : 'drained'
+    this.logger.warn(`🚰 Draining: ${this.activeOffers.size} accepted offers left`)
+  }
+  
+  private finishOffer(offerId: string): void {
+    this.activeOffers.delete(offerId)
+    
+    if (this.intake === 'draining' && this.activeOffers.size === 0) {
+      this.intake = 'drained'
+      this.logger.info('🚰 Drained: no accepted offers left, safe to stop')
+    }
+  }
+  
+  private listOffers(): AdminOffer[] {
+    const scheduled = new Map(this.scheduler.getPending().map(part => [part.offerId, part]))
+    
+    return Array.from(this.activeOffers.values()).map(offer => {
+      const slot = scheduled.get(offer.id)
+      const entry = this.journal.get(offer.id)
+      return {
+        offerId: offer.id,
+        partId: offer.partId,
+        asset: offer.asset,
+        amount: offer.amount,
+        state: slot ? 'scheduled' : 'executing',
+        ...(entry && { stage: entry.stage }),
+        ...(slot && { scheduledAt: slot.scheduledAt }),
+        ...(offer.expiresAt && { expiresAt: offer.expiresAt }),
+        ...(entry?.relayWallet && { relayWallet: entry.relayWallet }),
+        ...(entry?.signature && { signature: entry.signature })
+      }
+    })
+  }
+  
+  private async refreshBalances(): Promise<WalletBalance[]> {
+    const wallets = await this.walletManager.getBalances(this.connection)
+    this.metrics.recordWalletBalances(wallets)
+    return wallets
+  }
+  
   private async validateConnection(): Promise<void> {
     try {
       const slot = await this.connection.getSlot()
@@ -116,7 +335,7 @@ export class ShhNode {
   }
   
   private startHeartbeat(): void {
-    const interval = parseInt(process.env.HEARTBEAT_INTERVAL_MS || '30000')
+    const interval = this.config.node.timeout.heartbeatMs
     
     this.heartbeatInterval = setInterval(async () => {
       try {
@@ -126,11 +345,17 @@ export class ShhNode {
           status: status.status,
           balances: status.wallets,
           activeOffers: this.activeOffers.size,
-          version: this.config.version
+          version: this.config.version,
+          limits: this.spendLedger.getUtilization()
         })
         
+        this.metrics.recordWalletBalances(status.wallets)
         this.metrics.recordHeartbeat()
         this.logger.debug('💓 Heartbeat sent')
+        
+        // Retry journal entries whose outcome or receipt is still pending
+        await this.recovery.reconcile(new Set(this.activeOffers.keys()))
+        await this.syncPayouts()
       } catch (error) {
         this.logger.warn('💔 Heartbeat failed:', error)
         this.metrics.recordHeartbeatError()
@@ -139,10 +364,14 @@ export class ShhNode {
   }
   
   private async handleOffer(offer: Offer): Promise<void> {
-    const startTime = Date.now()
-    
     try {
       this.logger.info(`📩 Received offer ${offer.id} (${offer.asset} ${offer.amount})`)
+      this.metrics.recordOfferReceived(offer.asset)
+      
+      if (this.intake !== 'accepting') {
+        this.logger.info(`⏸️  Intake ${this.intake}, skipping offer ${offer.id}`)
+        return
+      }
       
       // Validate offer
       if (!this.validateOffer(offer)) {
@@ -151,4 +380,358 @@ export class ShhNode {
       }
       
       // Accept the offer
-      const acceptance: OfferAcceptance = {\n        offerId: offer.id,\n        nodeId: this.walletManager.nodeKeypair.publicKey.toString(),\n        timestamp: Date.now()\n      }\n      \n      const accepted = await this.dispatcher.acceptOffer(acceptance)\n      if (!accepted) {\n        this.logger.info(`⏭️  Offer ${offer.id} was claimed by another node`)\n        return\n      }\n      \n      this.activeOffers.set(offer.id, offer)\n      this.metrics.recordOfferAccepted()\n      \n      this.logger.info(`✅ Accepted offer ${offer.id}, executing...`)\n      \n      // Execute the transaction\n      const receipt = await this.executor.execute(offer)\n      \n      // Submit receipt to dispatcher\n      await this.dispatcher.submitReceipt(receipt)\n      \n      this.activeOffers.delete(offer.id)\n      this.metrics.recordOfferCompleted(Date.now() - startTime)\n      \n      this.logger.info(`🎉 Completed offer ${offer.id} (${receipt.txSignature})`)\n      \n    } catch (error) {\n      this.activeOffers.delete(offer.id)\n      this.metrics.recordOfferFailed()\n      this.logger.error(`💥 Failed to execute offer ${offer.id}:`, error)\n    }\n  }\n  \n  private validateOffer(offer: Offer): boolean {\n    // Check transaction limits\n    const maxPerTx = parseInt(process.env.MAX_PER_TX_LAMPORTS || '500000000')\n    if (offer.asset === 'SOL' && parseInt(offer.amount) > maxPerTx) {\n      this.logger.warn(`Offer ${offer.id} exceeds per-tx limit: ${offer.amount} > ${maxPerTx}`)\n      return false\n    }\n    \n    // Check if we have capacity\n    if (this.activeOffers.size >= this.config.node.maxConcurrent) {\n      this.logger.warn(`At capacity: ${this.activeOffers.size}/${this.config.node.maxConcurrent}`)\n      return false\n    }\n    \n    // Check if offer is still valid\n    if (offer.expiresAt && Date.now() > offer.expiresAt) {\n      this.logger.warn(`Offer ${offer.id} has expired`)\n      return false\n    }\n    \n    return true\n  }\n  \n  private async waitForActiveOffers(timeoutMs: number): Promise<void> {\n    const start = Date.now()\n    \n    while (this.activeOffers.size > 0 && (Date.now() - start) < timeoutMs) {\n      await new Promise(resolve => setTimeout(resolve, 1000))\n    }\n    \n    if (this.activeOffers.size > 0) {\n      this.logger.warn(`⚠️  ${this.activeOffers.size} offers still active after timeout`)\n    }\n  }\n  \n  private async getHealthStatus() {\n    const wallets = await this.walletManager.getBalances(this.connection)\n    \n    let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy'\n    \n    // Check if any wallet is low on balance\n    const minBalance = 0.01 // 0.01 SOL minimum\n    const lowBalanceWallets = wallets.filter(w => w.balanceSOL < minBalance)\n    \n    if (lowBalanceWallets.length > 0) {\n      status = 'degraded'\n      if (lowBalanceWallets.length === wallets.length) {\n        status = 'unhealthy'\n      }\n    }\n    \n    return {\n      status,\n      uptime: process.uptime(),\n      wallets,\n      activeOffers: this.activeOffers.size,\n      metrics: this.metrics.getSnapshot()\n    }\n  }\n}"
\ No newline at end of file
+      const acceptance: OfferAcceptance = {
+        offerId: offer.id,
+        nodeId: this.walletManager.nodePublicKey.toString(),
+        timestamp: Date.now()
+      }
+      
+      // Check the amount isn't a recognizable fraction of its siblings or a round number
+      if (!this.checkAmountFingerprint(offer)) {
+        return
+      }
+      
+      // Simulate the transfer now rather than discover after accepting that it can't succeed
+      if (!await this.checkFeasibility(offer)) {
+        return
+      }
+      
+      // Check what we're paid covers fees, priority fees and any token account rent
+      if (!await this.checkProfitability(offer)) {
+        return
+      }
+      
+      // Pick an execution slot clear of sibling parts; decline rather than bunch them together
+      const slotAt = this.scheduler.planSlot(offer)
+      if (slotAt === null) {
+        this.logger.warn(`❌ No execution slot for offer ${offer.id} clear of its sibling parts, declining`)
+        return
+      }
+      
+      // Intake may have been paused or drained while this offer was being evaluated
+      if (this.intake !== 'accepting') {
+        this.logger.info(`⏸️  Intake ${this.intake}, skipping offer ${offer.id}`)
+        return
+      }
+      
+      // Other offers may have reserved while this one was simulated and priced; re-check without
+      // awaiting so the check and the reservation can't interleave with theirs
+      if (!this.checkReservation(offer)) {
+        return
+      }
+      
+      // Reserve spend and the slot before accepting so concurrent offers can't jointly breach limits
+      this.spendLedger.reserve(offer)
+      this.siblingGuard.recordSlot(offer, slotAt)
+      this.pendingAccepts.add(offer.id)
+      
+      const outcome = await this.dispatcher.acceptOffer(acceptance).catch((error) => {
+        this.pendingAccepts.delete(offer.id)
+        this.releaseReservations(offer)
+        throw error
+      })
+      this.pendingAccepts.delete(offer.id)
+      if (outcome === 'claimed') {
+        this.releaseReservations(offer)
+        this.logger.info(`⏭️  Offer ${offer.id} was claimed by another node`)
+        return
+      }
+      if (outcome === 'ack_unverified') {
+        this.abandonUnverifiedAccept(offer)
+        return
+      }
+      
+      this.journal.recordAccepted(offer, slotAt)
+      this.activeOffers.set(offer.id, offer)
+      this.metrics.recordOfferAccepted(offer.asset)
+      
+      this.logger.info(`✅ Accepted offer ${offer.id}, scheduling...`)
+      await this.executeAccepted(offer, slotAt)
+      
+    } catch (error) {
+      this.finishOffer(offer.id)
+      this.metrics.recordOfferFailed(offer.asset)
+      this.logger.error(`💥 Failed to execute offer ${offer.id}:`, error)
+    }
+  }
+  
+  // Accepted parts that never got to sign before the last stop: run them at their journaled slot,
+  // or a fresh one clear of their siblings; the rest are left for recovery to report as failed
+  private resumeScheduledOffers(): void {
+    const now = Date.now()
+    for (const entry of this.journal.getUnfinished()) {
+      const { offer } = entry
+      if (entry.stage !== 'accepted' || entry.signature) continue
+      
+      const latestStart = offer.expiresAt ? offer.expiresAt - this.config.node.timeout.txConfirmTimeoutMs : Infinity
+      const slotAt = entry.scheduledAt && entry.scheduledAt >= now && entry.scheduledAt <= latestStart
+        ? entry.scheduledAt
+        : this.scheduler.planSlot(offer)
+      if (slotAt === null) continue
+      
+      this.siblingGuard.recordSlot(offer, slotAt)
+      this.activeOffers.set(offer.id, offer)
+      this.logger.info(`🔁 Resuming scheduled offer ${offer.id}`)
+      
+      Logger.runWithContext(
+        { offerId: offer.id, ...(offer.metadata && { requestId: offer.metadata.requestId }) },
+        () => this.executeAccepted(offer, slotAt).catch((error) => {
+          this.finishOffer(offer.id)
+          this.metrics.recordOfferFailed(offer.asset)
+          this.logger.error(`💥 Failed to execute offer ${offer.id}:`, error)
+        })
+      )
+    }
+  }
+  
+  private async executeAccepted(offer: Offer, slotAt: number): Promise<void> {
+    // Delay by a random jitter so our transfer can't be timing-correlated with the deposit
+    if (!await this.scheduler.waitForSlot(offer, slotAt)) {
+      this.finishOffer(offer.id)
+      return
+    }
+    
+    this.logger.info(`🚀 Executing offer ${offer.id}...`)
+    const executionStart = Date.now()
+    
+    // Execute from a wallet no sibling part has used, journaling the signature before it is broadcast
+    const receipt = await this.executor.execute(offer, {
+      excludeWallets: this.siblingGuard.getSiblingWallets(offer),
+      onProgress: ({ stage, ...details }) => {
+        this.journal.record(offer.id, stage, details)
+        this.siblingGuard.recordWallet(offer, details.relayWallet)
+      }
+    })
+    
+    if (receipt.success) {
+      this.journal.record(offer.id, 'confirmed', { receipt })
+      this.spendLedger.settle(offer.id, receipt.spentLamports)
+      this.metrics.recordPriorityFee(receipt.priorityFeeLamports ?? 0)
+      this.metrics.recordEarnings(offer.feeLamports / LAMPORTS_PER_SOL)
+      this.earnings.record(offer, receipt, this.journal.get(offer.id)?.relayWallet ?? 'unknown')
+    } else if (receipt.outcome === 'unknown') {
+      // The transfer may still land; let recovery settle it from on-chain state
+      this.logger.warn(`⚠️  Outcome of offer ${offer.id} unknown (${receipt.txSignature}), deferring to journal recovery`)
+      this.finishOffer(offer.id)
+      this.metrics.recordOfferCompleted(offer.asset, 'unknown', Date.now() - executionStart)
+      return
+    } else {
+      this.spendLedger.release(offer.id)
+    }
+    
+    // Submit receipt to dispatcher; an unverified acknowledgment is journaled as final, not retried
+    const receiptOutcome = await this.dispatcher.submitReceipt(receipt)
+    this.journal.record(offer.id, receiptOutcome === 'acknowledged' ? 'receipt_submitted' : 'ack_unverified')
+    
+    this.finishOffer(offer.id)
+    this.metrics.recordOfferCompleted(
+      offer.asset,
+      receipt.outcome ?? (receipt.success ? 'confirmed' : 'failed'),
+      Date.now() - executionStart
+    )
+    
+    this.logger.info(`🎉 Completed offer ${offer.id} (${receipt.txSignature})`)
+  }
+  
+  // Pick up payouts received since the last sync and refresh the outstanding-earnings metrics
+  private async syncPayouts(): Promise<void> {
+    try {
+      await this.payoutScanner.sync()
+    } catch (error) {
+      this.logger.warn('Payout scan failed, will retry on the next heartbeat:', error)
+    }
+    this.metrics.recordReconciliation(this.earnings.reconcile(this.payoutScanner.getPayoutAddress()))
+  }
+  
+  private validateOffer(offer: Offer): boolean {
+    // Check the asset is known on this cluster
+    if (!this.tokenRegistry.isSupported(offer.asset)) {
+      this.logger.warn(`Offer ${offer.id} declined: unsupported asset ${offer.asset} on ${this.tokenRegistry.getCluster()}`)
+      return false
+    }
+    
+    // Check per-tx, daily and hourly limits
+    const limitCheck = this.spendLedger.check(offer)
+    if (!limitCheck.allowed) {
+      this.logger.warn(`Offer ${offer.id} ${limitCheck.reason}`)
+      return false
+    }
+    
+    // Check a relay wallet unused by sibling parts remains
+    const siblingCheck = this.siblingGuard.checkWallets(offer, this.walletManager.getActiveWallets().length)
+    if (!siblingCheck.allowed) {
+      this.logger.warn(`Offer ${offer.id} declined: ${siblingCheck.reason}`)
+      return false
+    }
+    
+    if (!this.hasCapacity()) {
+      return false
+    }
+    
+    // Check if offer is still valid
+    if (offer.expiresAt && Date.now() > offer.expiresAt) {
+      this.logger.warn(`Offer ${offer.id} has expired`)
+      return false
+    }
+    
+    // Check there is still time to confirm before it expires
+    if (offer.expiresAt && offer.expiresAt - Date.now() < this.config.node.timeout.txConfirmTimeoutMs) {
+      this.logger.warn(`Offer ${offer.id} expires too soon to confirm safely`)
+      return false
+    }
+    
+    return true
+  }
+  
+  // Check if we have capacity, counting offers whose accept is still in flight
+  private hasCapacity(): boolean {
+    const inFlight = this.activeOffers.size + this.pendingAccepts.size
+    if (inFlight >= this.config.node.maxConcurrent) {
+      this.logger.warn(`At capacity: ${inFlight}/${this.config.node.maxConcurrent}`)
+      return false
+    }
+    return true
+  }
+  
+  // The limit, capacity and expiry checks from validateOffer, repeated immediately before reserving
+  private checkReservation(offer: Offer): boolean {
+    const limitCheck = this.spendLedger.check(offer)
+    if (!limitCheck.allowed) {
+      this.logger.warn(`Offer ${offer.id} ${limitCheck.reason}`)
+      return false
+    }
+    
+    if (!this.hasCapacity()) {
+      return false
+    }
+    
+    // Simulation and fee estimation take real time; the offer may no longer leave room to confirm
+    if (offer.expiresAt && offer.expiresAt - Date.now() < this.config.node.timeout.txConfirmTimeoutMs) {
+      this.logger.warn(`Offer ${offer.id} expires too soon to confirm safely`)
+      return false
+    }
+    
+    return true
+  }
+  
+  private checkAmountFingerprint(offer: Offer): boolean {
+    const findings = this.amountAnalyzer.analyze(offer, this.siblingGuard.getSiblingAmounts(offer))
+    if (findings.length === 0) return true
+    
+    findings.forEach(finding => this.metrics.recordFingerprintFinding(finding.kind))
+    const details = findings.map(finding => finding.detail).join('; ')
+    
+    if (this.config.privacy.fingerprintAction === 'decline') {
+      this.logger.warn(`❌ Offer ${offer.id} amount is fingerprintable (${details}), declining`)
+      return false
+    }
+    
+    this.logger.warn(`🔍 Offer ${offer.id} amount is fingerprintable (${details}), reporting to dispatcher`)
+    this.dispatcher.reportPrivacyWarning({
+      offerId: offer.id,
+      partId: offer.partId,
+      ...(offer.metadata && { requestId: offer.metadata.requestId }),
+      findings,
+      timestamp: Date.now()
+    }).catch(error => this.logger.warn(`Failed to report privacy warning for ${offer.id}:`, error))
+    
+    return true
+  }
+  
+  private async checkFeasibility(offer: Offer): Promise<boolean> {
+    const result = await this.executor.checkFeasibility(offer, this.siblingGuard.getSiblingWallets(offer))
+    if (result.feasible) return true
+    
+    const reason = result.reason ?? 'simulation_failed'
+    const detail = result.detail ?? 'unknown'
+    this.metrics.recordFeasibilityDecline(reason)
+    this.logger.warn(`❌ Offer ${offer.id} is not feasible (${reason}: ${detail}), declining`)
+    
+    if (this.config.node.reportDeclines) {
+      this.dispatcher.reportDecline({
+        offerId: offer.id,
+        partId: offer.partId,
+        reason,
+        detail,
+        timestamp: Date.now()
+      }).catch(error => this.logger.warn(`Failed to report decline for ${offer.id}:`, error))
+    }
+    
+    return false
+  }
+  
+  private async checkProfitability(offer: Offer): Promise<boolean> {
+    const decision = await this.profitability.evaluate(offer)
+    this.metrics.recordProfitabilityDecision(decision)
+    
+    if (!decision.accept) {
+      this.logger.warn(`❌ Offer ${offer.id} is unprofitable (${decision.reason}; ${this.profitability.describe(decision)}), declining`)
+      return false
+    }
+    
+    this.logger.info(`💰 Offer ${offer.id} is profitable (${this.profitability.describe(decision)})`)
+    return true
+  }
+  
+  // The dispatcher may have recorded our accept, but the response can't be trusted to mean that;
+  // move no funds, and hand the offer back so it isn't left assigned to us until it expires
+  private abandonUnverifiedAccept(offer: Offer): void {
+    this.releaseReservations(offer)
+    this.journal.recordAccepted(offer)
+    this.journal.record(offer.id, 'ack_unverified')
+    this.logger.error(`🚫 Acceptance of offer ${offer.id} could not be verified, not executing it`)
+    
+    this.dispatcher.reportDecline({
+      offerId: offer.id,
+      partId: offer.partId,
+      reason: 'unverified_ack',
+      detail: 'accept acknowledgment failed signature verification',
+      timestamp: Date.now()
+    }).catch(error => this.logger.warn(`Failed to report decline for ${offer.id}:`, error))
+  }
+  
+  private releaseReservations(offer: Offer): void {
+    this.spendLedger.release(offer.id)
+    this.siblingGuard.release(offer)
+  }
+  
+  private async waitForActiveOffers(timeoutMs: number): Promise<void> {
+    const start = Date.now()
+    
+    while (this.activeOffers.size > 0 && (Date.now() - start) < timeoutMs) {
+      await new Promise(resolve => setTimeout(resolve, 1000))
+    }
+    
+    if (this.activeOffers.size > 0) {
+      this.logger.warn(`⚠️  ${this.activeOffers.size} offers still active after timeout`)
+    }
+  }
+  
+  private async getHealthStatus() {
+    const wallets = await this.walletManager.getBalances(this.connection)
+    
+    let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy'
+    
+    // Check if any wallet is low on balance
+    const minBalance = this.config.rotation.minBalanceSOL
+    const lowBalanceWallets = wallets.filter(w => w.balanceSOL < minBalance)
+    
+    if (lowBalanceWallets.length > 0) {
+      status = 'degraded'
+      if (lowBalanceWallets.length === wallets.length) {
+        status = 'unhealthy'
+      }
+    }
+    
+    return {
+      status,
+      uptime: process.uptime(),
+      intake: this.intake,
+      wallets,
+      activeOffers: this.activeOffers.size,
+      limits: this.spendLedger.getUtilization(),
+      scheduled: this.scheduler.getPending(),
+      metrics: this.metrics.getSnapshot()
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { existsSync } from 'fs'
+import { Offer, JournalEntry, JournalRecord, JournalStage } from '../types'
+import { Logger } from '../utils/Logger'
+import { appendJsonLine, getDataPath, readJsonLines, writeJsonLinesAtomic } from '../utils/Storage'
+
+type JournalDetails = Omit<JournalRecord, 'offerId' | 'stage' | 'timestamp' | 'offer'>
+
+// Stages after which nothing more is done for an offer
+const FINAL_STAGES: JournalStage[] = ['receipt_submitted', 'ack_unverified']
+
+export class OfferJournal {
+  private logger = new Logger('OfferJournal')
+  private filePath: string
+  private entries = new Map<string, JournalEntry>()
+  
+  constructor(filePath = getDataPath('offer-journal.jsonl')) {
+    this.filePath = filePath
+  }
+  
+  load(): void {
+    const records = readJsonLines<JournalRecord>(this.filePath)
+    
+    for (const record of records) {
+      this.apply(record)
+    }
+    
+    // Drop finished entries so the file only grows with in-flight work
+    this.compact()
+    
+    const unfinished = this.getUnfinished().length
+    this.logger.info(`📒 Offer journal loaded (${unfinished} unfinished entries)`)
+  }
+  
+  recordAccepted(offer: Offer, scheduledAt?: number): void {
+    this.append({ offerId: offer.id, stage: 'accepted', timestamp: Date.now(), offer, ...(scheduledAt !== undefined && { scheduledAt }) })
+  }
+  
+  record(offerId: string, stage: JournalStage, details: JournalDetails = {}): void {
+    if (!this.entries.has(offerId)) {
+      throw new Error(`Offer ${offerId} is not in the journal`)
+    }
+    
+    this.append({ offerId, stage, timestamp: Date.now(), ...details })
+    
+    if (FINAL_STAGES.includes(stage)) {
+      this.entries.delete(offerId)
+    }
+  }
+  
+  get(offerId: string): JournalEntry | undefined {
+    return this.entries.get(offerId)
+  }
+  
+  getUnfinished(): JournalEntry[] {
+    return Array.from(this.entries.values())
+  }
+  
+  private append(record: JournalRecord): void {
+    // Persist before updating memory so a crash never loses a stage we acted on
+    appendJsonLine(this.filePath, record)
+    this.apply(record)
+  }
+  
+  private apply(record: JournalRecord): void {
+    if (FINAL_STAGES.includes(record.stage)) {
+      this.entries.delete(record.offerId)
+      return
+    }
+    
+    const existing = this.entries.get(record.offerId)
+    const offer = record.offer ?? existing?.offer
+    if (!offer) {
+      this.logger.warn(`Journal record for unknown offer ${record.offerId}, skipping`)
+      return
+    }
+    
+    const { offerId: _offerId, timestamp, offer: _offer, ...details } = record
+    this.entries.set(record.offerId, {
+      ...existing,
+      ...details,
+      offer,
+      updatedAt: timestamp
+    })
+  }
+  
+  private compact(): void {
+    if (!existsSync(this.filePath)) return
+    
+    const records: JournalRecord[] = this.getUnfinished().map(({ updatedAt, ...entry }) => ({
+      ...entry,
+      offerId: entry.offer.id,
+      timestamp: updatedAt
+    }))
+    
+    writeJsonLinesAtomic(this.filePath, records)
+  }
+}
\ No newline at end of file
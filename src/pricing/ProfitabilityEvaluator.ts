@@ -0,0 +1,96 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import { getAssociatedTokenAddress, getAccountLenForMint, getMint } from '@solana/spl-token'
+import { CostEstimate, FeePayerMode, NodeConfig, Offer, ProfitabilityDecision } from '../types'
+import { PriorityFeeEstimator } from '../execution/PriorityFeeEstimator'
+import {
+  LAMPORTS_PER_SIGNATURE,
+  SOL_TRANSFER_COMPUTE_UNITS,
+  TOKEN_TRANSFER_COMPUTE_UNITS,
+  TOKEN_TRANSFER_WITH_ATA_COMPUTE_UNITS
+} from '../execution/TransactionExecutor'
+import { TokenRegistry } from '../tokens/TokenRegistry'
+
+export class ProfitabilityEvaluator {
+  private connection: Connection
+  private config: NodeConfig
+  private tokenRegistry: TokenRegistry
+  private feePayerMode: FeePayerMode
+  private priorityFees: PriorityFeeEstimator
+  
+  constructor(connection: Connection, config: NodeConfig, tokenRegistry: TokenRegistry, feePayerMode: FeePayerMode) {
+    this.connection = connection
+    this.config = config
+    this.tokenRegistry = tokenRegistry
+    this.feePayerMode = feePayerMode
+    this.priorityFees = new PriorityFeeEstimator(connection, config)
+  }
+  
+  async evaluate(offer: Offer): Promise<ProfitabilityDecision> {
+    const cost = await this.estimateCost(offer)
+    const marginLamports = offer.feeLamports - cost.totalLamports
+    const { minMarginLamports, minFeeLamportsWithAtaCreation } = this.config.profitability
+    
+    const decide = (accept: boolean, reason?: string): ProfitabilityDecision => ({
+      accept,
+      ...(reason && { reason }),
+      feeLamports: offer.feeLamports,
+      cost,
+      marginLamports
+    })
+    
+    if (cost.ataRentLamports > 0 && offer.feeLamports < minFeeLamportsWithAtaCreation) {
+      return decide(false, `creates a token account but pays ${offer.feeLamports} < ${minFeeLamportsWithAtaCreation} lamports`)
+    }
+    
+    if (marginLamports < minMarginLamports) {
+      return decide(false, `margin ${marginLamports} < ${minMarginLamports} lamports`)
+    }
+    
+    return decide(true)
+  }
+  
+  // Everything the transfer costs us on-chain, in lamports, excluding the transferred amount itself
+  private async estimateCost(offer: Offer): Promise<CostEstimate> {
+    const recipient = new PublicKey(offer.recipient)
+    let ataRentLamports = 0
+    let computeUnits = SOL_TRANSFER_COMPUTE_UNITS
+    const writableAccounts = [recipient]
+    
+    if (!this.tokenRegistry.isNative(offer.asset)) {
+      const token = this.tokenRegistry.get(offer.asset)
+      const ata = await getAssociatedTokenAddress(token.mint, recipient, false, token.programId)
+      writableAccounts.push(ata)
+      
+      // The relay wallet pays rent for a recipient token account that doesn't exist yet
+      if (!await this.connection.getAccountInfo(ata)) {
+        const mint = await getMint(this.connection, token.mint, undefined, token.programId)
+        ataRentLamports = await this.connection.getMinimumBalanceForRentExemption(getAccountLenForMint(mint))
+        computeUnits = TOKEN_TRANSFER_WITH_ATA_COMPUTE_UNITS
+      } else {
+        computeUnits = TOKEN_TRANSFER_COMPUTE_UNITS
+      }
+    }
+    
+    // Sponsored transactions have their fees paid by the network; a separate fee payer adds a signature
+    let baseFeeLamports = 0
+    let priorityFeeLamports = 0
+    if (this.feePayerMode !== 'sponsored') {
+      baseFeeLamports = LAMPORTS_PER_SIGNATURE * (this.feePayerMode === 'self' ? 2 : 1)
+      priorityFeeLamports = (await this.priorityFees.estimate(writableAccounts, computeUnits, 0)).lamports
+    }
+    
+    return {
+      baseFeeLamports,
+      priorityFeeLamports,
+      ataRentLamports,
+      totalLamports: baseFeeLamports + priorityFeeLamports + ataRentLamports
+    }
+  }
+  
+  describe(decision: ProfitabilityDecision): string {
+    const { cost } = decision
+    return `fee ${decision.feeLamports}, cost ${cost.totalLamports} ` +
+      `(base ${cost.baseFeeLamports}, priority ${cost.priorityFeeLamports}, rent ${cost.ataRentLamports}), ` +
+      `margin ${decision.marginLamports} lamports`
+  }
+}
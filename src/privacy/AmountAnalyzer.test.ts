@@ -0,0 +1,75 @@
+import { Connection, Keypair } from '@solana/web3.js'
+import { AmountAnalyzer } from './AmountAnalyzer'
+import { TokenRegistry } from '../tokens/TokenRegistry'
+import { NodeConfig, Offer } from '../types'
+
+const DEVNET_GENESIS = 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG'
+
+const CONFIG = {
+  privacy: { avoidPercents: [10, 25, 50] },
+  tokens: {
+    devnet: {
+      WHOLE: { mint: Keypair.generate().publicKey.toString(), decimals: 0, program: 'spl-token' },
+      TENTHS: { mint: Keypair.generate().publicKey.toString(), decimals: 1, program: 'spl-token' },
+      CENTS: { mint: Keypair.generate().publicKey.toString(), decimals: 2, program: 'spl-token' }
+    }
+  }
+} as unknown as NodeConfig
+
+function offer(asset: string, amount: string): Offer {
+  return {
+    id: 'offer-1',
+    partId: 'part-1',
+    asset,
+    amount,
+    recipient: '11111111111111111111111111111111',
+    feeLamports: 5000
+  }
+}
+
+describe('AmountAnalyzer', () => {
+  const env = process.env
+  let analyzer: AmountAnalyzer
+  
+  beforeEach(async () => {
+    process.env = { ...env, LOG_LEVEL: 'error' }
+    delete process.env.SOLANA_CLUSTER
+    
+    const tokenRegistry = new TokenRegistry(CONFIG)
+    await tokenRegistry.init({ getGenesisHash: async () => DEVNET_GENESIS } as unknown as Connection)
+    analyzer = new AmountAnalyzer(CONFIG, tokenRegistry)
+  })
+  
+  afterEach(() => {
+    process.env = env
+  })
+  
+  const kinds = (asset: string, amount: string, siblings: string[] = []) =>
+    analyzer.analyze(offer(asset, amount), siblings).map(finding => finding.kind)
+  
+  describe('round amounts', () => {
+    it('flags whole tenths of SOL (9 decimals) but not other amounts', () => {
+      expect(kinds('SOL', '1500000000')).toEqual(['round_amount'])
+      expect(kinds('SOL', '1234567891')).toEqual([])
+    })
+    
+    it('flags whole tenths of a 2-decimal token', () => {
+      expect(kinds('CENTS', '250')).toEqual(['round_amount'])
+      expect(kinds('CENTS', '251')).toEqual([])
+    })
+    
+    it('never flags tokens with 0 or 1 decimals, where every amount is a whole tenth', () => {
+      expect(kinds('WHOLE', '7')).toEqual([])
+      expect(kinds('WHOLE', '100')).toEqual([])
+      expect(kinds('TENTHS', '7')).toEqual([])
+      expect(kinds('TENTHS', '100')).toEqual([])
+    })
+  })
+  
+  describe('sibling fractions', () => {
+    it('flags an amount that is an avoided percentage of a sibling', () => {
+      expect(kinds('SOL', '1234567891', ['4938271564'])).toEqual(['sibling_fraction'])
+      expect(kinds('SOL', '1234567891', ['3000000001'])).toEqual([])
+    })
+  })
+})
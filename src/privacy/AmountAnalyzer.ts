@@ -0,0 +1,48 @@
+import { Offer, NodeConfig, FingerprintFinding } from '../types'
+import { TokenRegistry } from '../tokens/TokenRegistry'
+
+// How close a ratio must be to an avoided percentage to count as a match
+const RATIO_TOLERANCE = 0.005
+
+export class AmountAnalyzer {
+  private config: NodeConfig
+  private tokenRegistry: TokenRegistry
+  
+  constructor(config: NodeConfig, tokenRegistry: TokenRegistry) {
+    this.config = config
+    this.tokenRegistry = tokenRegistry
+  }
+  
+  analyze(offer: Offer, siblingAmounts: string[]): FingerprintFinding[] {
+    const findings: FingerprintFinding[] = []
+    const amount = parseInt(offer.amount)
+    
+    // An amount is "round" when it is a whole multiple of 0.1 in display units; with fewer than two
+    // decimals every amount is such a multiple, so the check would flag every offer in the asset
+    const decimals = this.tokenRegistry.getDecimals(offer.asset)
+    if (decimals >= 2 && amount > 0 && amount % 10 ** (decimals - 1) === 0) {
+      findings.push({
+        kind: 'round_amount',
+        detail: `${offer.amount} is a round ${offer.asset} amount`
+      })
+    }
+    
+    for (const siblingAmount of siblingAmounts) {
+      const sibling = parseInt(siblingAmount)
+      if (!sibling || !amount) continue
+      
+      // Either part may be the fraction of the other
+      const ratio = Math.min(amount, sibling) / Math.max(amount, sibling)
+      const percent = this.config.privacy.avoidPercents.find(p => Math.abs(ratio - p / 100) <= RATIO_TOLERANCE)
+      
+      if (percent !== undefined) {
+        findings.push({
+          kind: 'sibling_fraction',
+          detail: `${offer.amount} and sibling ${siblingAmount} are in a ${percent}% ratio`
+        })
+      }
+    }
+    
+    return findings
+  }
+}
\ No newline at end of file
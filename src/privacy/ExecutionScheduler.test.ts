@@ -0,0 +1,153 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ExecutionScheduler } from './ExecutionScheduler'
+import { SiblingGuard } from './SiblingGuard'
+import { OfferJournal } from '../persistence/OfferJournal'
+import { NodeConfig, Offer } from '../types'
+
+const CONFIRM_MS = 30000
+
+function configWith(privacy: Partial<NodeConfig['privacy']>): NodeConfig {
+  return {
+    node: { timeout: { txConfirmTimeoutMs: CONFIRM_MS } },
+    privacy: {
+      avoidPercents: [],
+      delayJitterSec: [0, 600],
+      minSiblingSpacingSec: 60,
+      fingerprintAction: 'warn',
+      rotateOnLowBalance: true,
+      randomizeOrder: false,
+      ...privacy
+    }
+  } as NodeConfig
+}
+
+let nextId = 0
+function offer(partial: Partial<Offer> = {}): Offer {
+  nextId++
+  return {
+    id: `offer-${nextId}`,
+    partId: `part-${nextId}`,
+    asset: 'SOL',
+    amount: '10000000',
+    recipient: '11111111111111111111111111111111',
+    feeLamports: 5000,
+    ...partial
+  }
+}
+
+describe('ExecutionScheduler', () => {
+  const env = process.env
+  let dir: string
+  let guard: SiblingGuard
+  let journal: OfferJournal
+  let scheduler: ExecutionScheduler
+  
+  function setUp(privacy: Partial<NodeConfig['privacy']> = {}): void {
+    const config = configWith(privacy)
+    guard = new SiblingGuard(config, join(dir, 'sibling-parts.json'))
+    journal = new OfferJournal(join(dir, 'offer-journal.jsonl'))
+    scheduler = new ExecutionScheduler(config, guard, journal)
+  }
+  
+  beforeEach(() => {
+    process.env = { ...env, LOG_LEVEL: 'error' }
+    dir = mkdtempSync(join(tmpdir(), 'scheduler-test-'))
+    setUp()
+  })
+  
+  afterEach(() => {
+    scheduler.cancelAll()
+    process.env = env
+    rmSync(dir, { recursive: true, force: true })
+  })
+  
+  describe('planSlot', () => {
+    it('stays within the jitter range', () => {
+      setUp({ delayJitterSec: [10, 20] })
+      const before = Date.now()
+      
+      for (let i = 0; i < 50; i++) {
+        const slotAt = scheduler.planSlot(offer())!
+        expect(slotAt).toBeGreaterThanOrEqual(before + 10000)
+        expect(slotAt).toBeLessThanOrEqual(Date.now() + 20000)
+      }
+    })
+    
+    it('clamps the slot so the transfer can still confirm before the offer expires', () => {
+      const expiresAt = Date.now() + CONFIRM_MS + 5000
+      
+      for (let i = 0; i < 50; i++) {
+        expect(scheduler.planSlot(offer({ expiresAt }))).toBeLessThanOrEqual(expiresAt - CONFIRM_MS)
+      }
+    })
+    
+    it('returns null when the offer expires too soon to confirm', () => {
+      expect(scheduler.planSlot(offer({ expiresAt: Date.now() + CONFIRM_MS - 1000 }))).toBeNull()
+    })
+    
+    it('keeps sibling parts of a request apart by the minimum spacing', () => {
+      setUp({ delayJitterSec: [0, 300], minSiblingSpacingSec: 60 })
+      const metadata = (partIndex: number) => ({ requestId: 'request-1', partIndex, totalParts: 3 })
+      
+      const slots: number[] = []
+      for (let partIndex = 0; partIndex < 3; partIndex++) {
+        const part = offer({ metadata: metadata(partIndex) })
+        const slotAt = scheduler.planSlot(part)!
+        guard.recordSlot(part, slotAt)
+        slots.push(slotAt)
+      }
+      
+      slots.sort((a, b) => a - b)
+      expect(slots[1]! - slots[0]!).toBeGreaterThanOrEqual(60000)
+      expect(slots[2]! - slots[1]!).toBeGreaterThanOrEqual(60000)
+    })
+    
+    it('declines a part when its siblings leave no room in the window', () => {
+      setUp({ delayJitterSec: [0, 30], minSiblingSpacingSec: 60 })
+      const now = Date.now()
+      guard.recordSlot(offer({ metadata: { requestId: 'request-1', partIndex: 0, totalParts: 2 } }), now + 15000)
+      
+      expect(scheduler.planSlot(offer({ metadata: { requestId: 'request-1', partIndex: 1, totalParts: 2 } }))).toBeNull()
+    })
+  })
+  
+  describe('waitForSlot', () => {
+    it('resolves true when the slot arrives', async () => {
+      await expect(scheduler.waitForSlot(offer(), Date.now() + 10)).resolves.toBe(true)
+    })
+    
+    it('resolves false for every pending part on cancelAll, without waiting for their slots', async () => {
+      const waits = [
+        scheduler.waitForSlot(offer(), Date.now() + 60000),
+        scheduler.waitForSlot(offer(), Date.now() + 120000)
+      ]
+      
+      expect(scheduler.cancelAll()).toBe(2)
+      await expect(Promise.all(waits)).resolves.toEqual([false, false])
+      expect(scheduler.getPending()).toEqual([])
+    })
+    
+    it('journals swapped slots, so a restart resumes each part at the slot it was moved to', () => {
+      setUp({ randomizeOrder: true })
+      const now = Date.now()
+      const first = offer()
+      const second = offer()
+      journal.recordAccepted(first, now + 60000)
+      journal.recordAccepted(second, now + 120000)
+      
+      // With two parts pending, the second always swaps slots with the first
+      void scheduler.waitForSlot(first, now + 60000)
+      void scheduler.waitForSlot(second, now + 120000)
+      const pending = scheduler.getPending()
+      expect(pending.map(part => part.offerId)).toEqual([second.id, first.id])
+      
+      const restarted = new OfferJournal(join(dir, 'offer-journal.jsonl'))
+      restarted.load()
+      for (const part of pending) {
+        expect(restarted.get(part.offerId)?.scheduledAt).toBe(part.scheduledAt)
+      }
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import { Offer, NodeConfig, ScheduledPart } from '../types'
+import { Logger } from '../utils/Logger'
+import { SiblingGuard } from './SiblingGuard'
+import { OfferJournal } from '../persistence/OfferJournal'
+
+interface PendingExecution {
+  offer: Offer
+  scheduledAt: number
+  latestStart: number
+  timer: NodeJS.Timeout
+  release: (run: boolean) => void
+}
+
+export class ExecutionScheduler {
+  private logger = new Logger('ExecutionScheduler')
+  private config: NodeConfig
+  private siblingGuard: SiblingGuard
+  private journal: OfferJournal
+  private pending = new Map<string, PendingExecution>()
+  
+  constructor(config: NodeConfig, siblingGuard: SiblingGuard, journal: OfferJournal) {
+    this.config = config
+    this.siblingGuard = siblingGuard
+    this.journal = journal
+  }
+  
+  // Pick a random slot within the jitter range that keeps clear of sibling parts,
+  // or null if none exists before the offer must start to confirm in time
+  planSlot(offer: Offer): number | null {
+    const now = Date.now()
+    const [minSec, maxSec] = this.config.privacy.delayJitterSec
+    const latestStart = this.getLatestStart(offer)
+    
+    const hi = Math.min(now + maxSec * 1000, latestStart)
+    const lo = Math.max(now, Math.min(now + minSec * 1000, hi))
+    if (hi < lo) return null
+    
+    // Carve sibling slots (plus spacing on either side) out of the window
+    const spacingMs = this.siblingGuard.getSpacingMs()
+    const blocked = this.siblingGuard.getSiblingSlots(offer)
+      .map(at => [at - spacingMs, at + spacingMs] as const)
+      .sort((a, b) => a[0] - b[0])
+    
+    const free: [number, number][] = []
+    let cursor = lo
+    for (const [start, end] of blocked) {
+      if (start > cursor) free.push([cursor, Math.min(start, hi)])
+      cursor = Math.max(cursor, end)
+      if (cursor > hi) break
+    }
+    if (cursor <= hi) free.push([cursor, hi])
+    
+    const segments = free.filter(([start, end]) => end >= start)
+    if (segments.length === 0) return null
+    
+    const total = segments.reduce((sum, [start, end]) => sum + (end - start), 0)
+    let offset = Math.random() * total
+    for (const [start, end] of segments) {
+      if (offset <= end - start) return Math.round(start + offset)
+      offset -= end - start
+    }
+    
+    return Math.round(segments[0]![0])
+  }
+  
+  // Resolves true when the offer's planned execution slot arrives, false if it was cancelled first
+  waitForSlot(offer: Offer, scheduledAt: number): Promise<boolean> {
+    const now = Date.now()
+    const latestStart = this.getLatestStart(offer)
+    
+    return new Promise((resolve) => {
+      const entry: PendingExecution = {
+        offer,
+        scheduledAt,
+        latestStart,
+        timer: setTimeout(() => this.release(offer.id, true), Math.max(0, scheduledAt - now)),
+        release: resolve
+      }
+      this.pending.set(offer.id, entry)
+      
+      if (this.config.privacy.randomizeOrder) {
+        this.shuffle(entry)
+      }
+      
+      const delaySec = Math.round((entry.scheduledAt - now) / 1000)
+      this.logger.info(`⏱️  Offer ${offer.id} scheduled in ${delaySec}s`)
+    })
+  }
+  
+  getPending(): ScheduledPart[] {
+    return Array.from(this.pending.values())
+      .sort((a, b) => a.scheduledAt - b.scheduledAt)
+      .map(({ offer, scheduledAt }) => ({
+        offerId: offer.id,
+        partId: offer.partId,
+        asset: offer.asset,
+        scheduledAt,
+        ...(offer.expiresAt && { expiresAt: offer.expiresAt })
+      }))
+  }
+  
+  // Cancel every pending offer without running it (used on shutdown); running them all at once
+  // would give up the jitter and sibling spacing they were scheduled with
+  cancelAll(): number {
+    const offerIds = Array.from(this.pending.keys())
+    for (const offerId of offerIds) {
+      this.release(offerId, false)
+    }
+    return offerIds.length
+  }
+  
+  private release(offerId: string, run: boolean): void {
+    const entry = this.pending.get(offerId)
+    if (!entry) return
+    
+    clearTimeout(entry.timer)
+    this.pending.delete(offerId)
+    entry.release(run)
+  }
+  
+  // Leave enough time before expiry for the transfer to confirm
+  private getLatestStart(offer: Offer): number {
+    return offer.expiresAt
+      ? offer.expiresAt - this.config.node.timeout.txConfirmTimeoutMs
+      : Infinity
+  }
+  
+  // Swap slots with a random pending offer so execution order doesn't follow arrival order
+  private shuffle(entry: PendingExecution): void {
+    const others = Array.from(this.pending.values()).filter(other => other !== entry)
+    if (others.length === 0) return
+    
+    const other = others[Math.floor(Math.random() * others.length)]!
+    if (entry.scheduledAt > other.latestStart || other.scheduledAt > entry.latestStart) {
+      return
+    }
+    
+    // Never let a swap bring two parts of the same request closer than the sibling spacing
+    const otherRequestId = other.offer.metadata?.requestId
+    if (otherRequestId && otherRequestId === entry.offer.metadata?.requestId) return
+    if (!this.siblingGuard.isSlotAllowed(entry.offer, other.scheduledAt)) return
+    if (!this.siblingGuard.isSlotAllowed(other.offer, entry.scheduledAt)) return
+    
+    const scheduledAt = entry.scheduledAt
+    this.reschedule(entry, other.scheduledAt)
+    this.reschedule(other, scheduledAt)
+  }
+  
+  private reschedule(entry: PendingExecution, scheduledAt: number): void {
+    clearTimeout(entry.timer)
+    entry.scheduledAt = scheduledAt
+    this.siblingGuard.recordSlot(entry.offer, scheduledAt)
+    // Parts waiting for their slot are still at 'accepted'; journal the new slot so a restart resumes it
+    this.journal.record(entry.offer.id, 'accepted', { scheduledAt })
+    entry.timer = setTimeout(() => this.release(entry.offer.id, true), Math.max(0, scheduledAt - Date.now()))
+  }
+}
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { Offer, NodeConfig, SiblingPart } from '../types'
+import { Logger } from '../utils/Logger'
+import { getDataPath, readJsonFile, writeJsonFileAtomic } from '../utils/Storage'
+
+// Sibling history only matters while parts of the same request can still arrive
+const RETENTION_MS = 24 * 60 * 60 * 1000
+
+export interface SiblingCheck {
+  allowed: boolean
+  reason?: string
+}
+
+export class SiblingGuard {
+  private logger = new Logger('SiblingGuard')
+  private config: NodeConfig
+  private filePath: string
+  private requests = new Map<string, SiblingPart[]>()
+  
+  constructor(config: NodeConfig, filePath = getDataPath('sibling-parts.json')) {
+    this.config = config
+    this.filePath = filePath
+  }
+  
+  load(): void {
+    const stored = readJsonFile<Record<string, SiblingPart[]>>(this.filePath, {})
+    this.requests = new Map(Object.entries(stored))
+    this.prune()
+    this.logger.info(`🧩 Tracking sibling parts for ${this.requests.size} requests`)
+  }
+  
+  // Decline when every relay wallet has already served a sibling of this part
+  checkWallets(offer: Offer, relayWalletCount: number): SiblingCheck {
+    const used = this.getSiblingWallets(offer)
+    if (used.length >= relayWalletCount) {
+      return { allowed: false, reason: `all ${relayWalletCount} relay wallets already served request ${offer.metadata?.requestId}` }
+    }
+    
+    return { allowed: true }
+  }
+  
+  getSiblingWallets(offer: Offer): string[] {
+    return this.getSiblings(offer)
+      .map(part => part.relayWallet)
+      .filter((wallet): wallet is string => wallet !== undefined)
+  }
+  
+  getSiblingAmounts(offer: Offer): string[] {
+    return this.getSiblings(offer).map(part => part.amount)
+  }
+  
+  getSiblingSlots(offer: Offer): number[] {
+    return this.getSiblings(offer).map(part => part.slotAt)
+  }
+  
+  getSpacingMs(): number {
+    return this.config.privacy.minSiblingSpacingSec * 1000
+  }
+  
+  isSlotAllowed(offer: Offer, slotAt: number): boolean {
+    const spacingMs = this.getSpacingMs()
+    return this.getSiblingSlots(offer).every(siblingAt => Math.abs(siblingAt - slotAt) >= spacingMs)
+  }
+  
+  recordSlot(offer: Offer, slotAt: number): void {
+    const requestId = offer.metadata?.requestId
+    if (!requestId) return
+    
+    const parts = this.requests.get(requestId) ?? []
+    const existing = parts.find(part => part.offerId === offer.id)
+    
+    if (existing) {
+      existing.slotAt = slotAt
+    } else {
+      parts.push({ offerId: offer.id, partIndex: offer.metadata!.partIndex, amount: offer.amount, slotAt })
+    }
+    
+    this.requests.set(requestId, parts)
+    this.save()
+  }
+  
+  recordWallet(offer: Offer, relayWallet: string): void {
+    const part = this.findPart(offer)
+    if (!part) return
+    
+    part.relayWallet = relayWallet
+    this.save()
+  }
+  
+  // Forget a part that was never executed (e.g. lost the accept race)
+  release(offer: Offer): void {
+    const requestId = offer.metadata?.requestId
+    if (!requestId) return
+    
+    const parts = (this.requests.get(requestId) ?? []).filter(part => part.offerId !== offer.id)
+    if (parts.length > 0) {
+      this.requests.set(requestId, parts)
+    } else {
+      this.requests.delete(requestId)
+    }
+    this.save()
+  }
+  
+  private getSiblings(offer: Offer): SiblingPart[] {
+    const requestId = offer.metadata?.requestId
+    if (!requestId) return []
+    
+    return (this.requests.get(requestId) ?? []).filter(part => part.offerId !== offer.id)
+  }
+  
+  private findPart(offer: Offer): SiblingPart | undefined {
+    const requestId = offer.metadata?.requestId
+    if (!requestId) return undefined
+    
+    return this.requests.get(requestId)?.find(part => part.offerId === offer.id)
+  }
+  
+  private prune(): void {
+    const cutoff = Date.now() - RETENTION_MS
+    
+    for (const [requestId, parts] of this.requests) {
+      if (parts.every(part => part.slotAt < cutoff)) {
+        this.requests.delete(requestId)
+      }
+    }
+  }
+  
+  private save(): void {
+    this.prune()
+    writeJsonFileAtomic(this.filePath, Object.fromEntries(this.requests))
+  }
+}
\ No newline at end of file
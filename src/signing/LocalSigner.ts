@@ -0,0 +1,104 @@
+import { Keypair, PublicKey, Transaction } from '@solana/web3.js'
+import { sign } from 'tweetnacl'
+import { Signer } from './Signer'
+import { Keystore } from '../wallet/Keystore'
+import { Logger } from '../utils/Logger'
+
+// Holds keypairs in this process: the node itself without a signing daemon, or the daemon
+export class LocalSigner implements Signer {
+  readonly nodePublicKey: PublicKey
+  readonly relayPublicKeys: PublicKey[]
+  readonly feePayerPublicKey: PublicKey | null
+  private nodeKeypair: Keypair
+  private transactionKeypairs = new Map<string, Keypair>()
+  
+  constructor(nodeKeypair: Keypair, relayKeypairs: Keypair[], feePayerKeypair: Keypair | null) {
+    this.nodeKeypair = nodeKeypair
+    this.nodePublicKey = nodeKeypair.publicKey
+    this.relayPublicKeys = relayKeypairs.map(keypair => keypair.publicKey)
+    this.feePayerPublicKey = feePayerKeypair?.publicKey ?? null
+    
+    for (const keypair of [...relayKeypairs, ...(feePayerKeypair ? [feePayerKeypair] : [])]) {
+      this.transactionKeypairs.set(keypair.publicKey.toString(), keypair)
+    }
+  }
+  
+  // Signers from the unlocked keystore when given, otherwise from plaintext env vars;
+  // the fee payer always comes from FEE_PAYER_SECRET when set
+  static load(keystore: Keystore | null): LocalSigner {
+    const logger = new Logger('LocalSigner')
+    
+    const nodeKeypair = keystore ? keystore.nodeSigner : loadNodeSigner()
+    logger.info(`🔑 Node signer loaded${keystore ? ' from keystore' : ''}: ${nodeKeypair.publicKey.toString()}`)
+    
+    const relays = keystore ? keystore.getRelaySigners() : loadRelaySigners()
+    if (relays.length === 0) {
+      throw new Error(keystore
+        ? `Keystore ${keystore.path} has no relay signers, add one with npm run keystore -- add-relay`
+        : 'At least one relay signer is required')
+    }
+    relays.forEach(({ label, keypair }, index) => {
+      logger.info(`🔑 Relay wallet ${index + 1}${label ? ` (${label})` : ''} loaded: ${keypair.publicKey.toString()}`)
+    })
+    
+    const feePayerKeypair = loadFeePayer()
+    if (feePayerKeypair) {
+      logger.info(`🔑 Fee payer loaded: ${feePayerKeypair.publicKey.toString()}`)
+    }
+    
+    return new LocalSigner(nodeKeypair, relays.map(relay => relay.keypair), feePayerKeypair)
+  }
+  
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return sign.detached(message, this.nodeKeypair.secretKey)
+  }
+  
+  async signTransaction(transaction: Transaction, signers: PublicKey[]): Promise<void> {
+    const keypairs = signers.map(publicKey => {
+      const keypair = this.transactionKeypairs.get(publicKey.toString())
+      if (!keypair) {
+        throw new Error(`No transaction signing key for ${publicKey.toString()}`)
+      }
+      return keypair
+    })
+    transaction.partialSign(...keypairs)
+  }
+}
+
+function loadNodeSigner(): Keypair {
+  const nodeSignerSecret = process.env.NODE_SIGNER_SECRET
+  if (!nodeSignerSecret) {
+    throw new Error('NODE_SIGNER_SECRET environment variable is required')
+  }
+  
+  try {
+    return Keypair.fromSecretKey(Buffer.from(nodeSignerSecret, 'base64'))
+  } catch (error) {
+    throw new Error(`Failed to load node signer: ${error}`)
+  }
+}
+
+function loadRelaySigners(): Array<{ label?: string; keypair: Keypair }> {
+  const relaySignersEnv = process.env.RELAY_SIGNERS
+  if (!relaySignersEnv) {
+    throw new Error('RELAY_SIGNERS environment variable is required')
+  }
+  
+  try {
+    const relaySecrets = JSON.parse(relaySignersEnv) as string[]
+    return relaySecrets.map(secret => ({ keypair: Keypair.fromSecretKey(Buffer.from(secret, 'base64')) }))
+  } catch (error) {
+    throw new Error(`Failed to load relay signers: ${error}`)
+  }
+}
+
+function loadFeePayer(): Keypair | null {
+  const feePayerSecret = process.env.FEE_PAYER_SECRET
+  if (!feePayerSecret) return null
+  
+  try {
+    return Keypair.fromSecretKey(Buffer.from(feePayerSecret, 'base64'))
+  } catch (error) {
+    throw new Error(`Failed to load fee payer: ${error}`)
+  }
+}
@@ -0,0 +1,90 @@
+import { createConnection } from 'net'
+import { PublicKey, Transaction } from '@solana/web3.js'
+import { sign } from 'tweetnacl'
+import { Signer } from './Signer'
+import { SignedMessage, SignedTransaction, SignerKeys, SignerRequest, SignerResponse } from './SignerProtocol'
+
+const REQUEST_TIMEOUT_MS = 10_000
+
+// Client for the signing daemon; this process never sees a private key
+export class RemoteSigner implements Signer {
+  readonly nodePublicKey: PublicKey
+  readonly relayPublicKeys: PublicKey[]
+  readonly feePayerPublicKey: PublicKey | null
+  private socketPath: string
+  
+  private constructor(socketPath: string, keys: SignerKeys) {
+    this.socketPath = socketPath
+    this.nodePublicKey = new PublicKey(keys.node)
+    this.relayPublicKeys = keys.relays.map(relay => new PublicKey(relay))
+    this.feePayerPublicKey = keys.feePayer ? new PublicKey(keys.feePayer) : null
+  }
+  
+  static async connect(socketPath: string): Promise<RemoteSigner> {
+    const keys = await request<SignerKeys>(socketPath, { method: 'keys' })
+    return new RemoteSigner(socketPath, keys)
+  }
+  
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const { signature } = await request<SignedMessage>(this.socketPath, {
+      method: 'signMessage',
+      message: Buffer.from(message).toString('base64')
+    })
+    
+    const signatureBytes = Buffer.from(signature, 'base64')
+    if (!sign.detached.verify(message, signatureBytes, this.nodePublicKey.toBytes())) {
+      throw new Error('Signing daemon returned an invalid message signature')
+    }
+    return signatureBytes
+  }
+  
+  async signTransaction(transaction: Transaction, signers: PublicKey[]): Promise<void> {
+    const message = transaction.serializeMessage()
+    const { signatures } = await request<SignedTransaction>(this.socketPath, {
+      method: 'signTransaction',
+      message: message.toString('base64'),
+      signers: signers.map(signer => signer.toString())
+    })
+    
+    for (const signer of signers) {
+      const signed = signatures.find(entry => entry.publicKey === signer.toString())
+      const signature = signed && Buffer.from(signed.signature, 'base64')
+      if (!signature || !sign.detached.verify(message, signature, signer.toBytes())) {
+        throw new Error(`Signing daemon returned no valid signature for ${signer.toString()}`)
+      }
+      transaction.addSignature(signer, signature)
+    }
+  }
+}
+
+// One connection per request; the daemon answers with a single line
+function request<T>(socketPath: string, body: SignerRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(socketPath)
+    let buffer = ''
+    
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => {
+      socket.destroy()
+      reject(new Error(`Signing daemon did not answer ${body.method} within ${REQUEST_TIMEOUT_MS}ms`))
+    })
+    socket.on('error', (error) => reject(new Error(`Signing daemon unreachable at ${socketPath}: ${error.message}`)))
+    socket.on('connect', () => socket.write(JSON.stringify(body) + '\n'))
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8')
+      const newline = buffer.indexOf('\n')
+      if (newline < 0) return
+      
+      socket.end()
+      try {
+        const response = JSON.parse(buffer.slice(0, newline)) as SignerResponse<T>
+        if (response.ok) {
+          resolve(response.result)
+        } else {
+          reject(new Error(`Signing daemon refused ${body.method}: ${response.error}`))
+        }
+      } catch (error) {
+        reject(new Error(`Malformed signing daemon response: ${error}`))
+      }
+    })
+  })
+}
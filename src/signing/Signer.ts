@@ -0,0 +1,14 @@
+import { PublicKey, Transaction } from '@solana/web3.js'
+
+// Everything that needs a private key goes through a Signer, so keys can live outside the node process
+export interface Signer {
+  readonly nodePublicKey: PublicKey
+  readonly relayPublicKeys: PublicKey[]
+  readonly feePayerPublicKey: PublicKey | null
+  
+  // Node-key signature over a text message, e.g. dispatcher request authentication
+  signMessage(message: Uint8Array): Promise<Uint8Array>
+  
+  // Add signatures from the given relay or fee payer keys to the transaction
+  signTransaction(transaction: Transaction, signers: PublicKey[]): Promise<void>
+}
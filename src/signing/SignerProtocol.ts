@@ -0,0 +1,25 @@
+// Newline-delimited JSON over a Unix socket between the node and the signing daemon.
+// Binary values are base64, public keys base58.
+
+export type SignerRequest =
+  | { method: 'keys' }
+  | { method: 'signMessage'; message: string }
+  | { method: 'signTransaction'; message: string; signers: string[] }
+
+export interface SignerKeys {
+  node: string
+  relays: string[]
+  feePayer: string | null
+}
+
+export interface SignedMessage {
+  signature: string
+}
+
+export interface SignedTransaction {
+  signatures: Array<{ publicKey: string; signature: string }>
+}
+
+export type SignerResponse<T = unknown> =
+  | { ok: true; result: T }
+  | { ok: false; error: string }
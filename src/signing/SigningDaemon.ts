@@ -0,0 +1,159 @@
+import { chmodSync, existsSync, rmSync } from 'fs'
+import { dirname } from 'path'
+import { Server, Socket, createServer } from 'net'
+import { Message, PublicKey, Transaction } from '@solana/web3.js'
+import { LocalSigner } from './LocalSigner'
+import { SigningPolicy } from './SigningPolicy'
+import { SignedMessage, SignedTransaction, SignerKeys, SignerRequest, SignerResponse } from './SignerProtocol'
+import { Logger } from '../utils/Logger'
+import { ensureDir } from '../utils/Storage'
+
+// Requests are a few KB at most; anything larger is not from the node
+const MAX_REQUEST_BYTES = 64 * 1024
+
+// Auth messages are text; refusing binary keeps the node key from signing a transaction message
+const CONTROL_CHARACTER_PATTERN = /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/
+
+// Serves signatures over a Unix socket, enforcing its own policy on every transaction
+export class SigningDaemon {
+  private logger = new Logger('SigningDaemon')
+  private signer: LocalSigner
+  private policy: SigningPolicy
+  private socketPath: string
+  private server: Server | null = null
+  
+  constructor(signer: LocalSigner, policy: SigningPolicy, socketPath: string) {
+    this.signer = signer
+    this.policy = policy
+    this.socketPath = socketPath
+  }
+  
+  async start(): Promise<void> {
+    ensureDir(dirname(this.socketPath))
+    
+    // A socket left behind by a crashed daemon would make listen fail
+    if (existsSync(this.socketPath)) {
+      rmSync(this.socketPath)
+    }
+    
+    this.server = createServer(socket => this.handleConnection(socket))
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject)
+      this.server!.listen(this.socketPath, () => {
+        this.server!.off('error', reject)
+        resolve()
+      })
+    })
+    chmodSync(this.socketPath, 0o600)
+    
+    this.logger.info(`🔏 Signing daemon listening on ${this.socketPath}`)
+  }
+  
+  async stop(): Promise<void> {
+    if (!this.server) return
+    
+    await new Promise<void>(resolve => this.server!.close(() => resolve()))
+    this.server = null
+    rmSync(this.socketPath, { force: true })
+    this.logger.info('🛑 Signing daemon stopped')
+  }
+  
+  private handleConnection(socket: Socket): void {
+    let buffer = ''
+    let answered = false
+    
+    socket.on('error', (error) => this.logger.warn('Signer connection error:', error.message))
+    socket.on('data', async (chunk) => {
+      if (answered) return
+      buffer += chunk.toString('utf-8')
+      if (buffer.length > MAX_REQUEST_BYTES) {
+        answered = true
+        this.reply(socket, { ok: false, error: 'Request too large' })
+        return
+      }
+      
+      const newline = buffer.indexOf('\n')
+      if (newline < 0) return
+      answered = true
+      
+      let response: SignerResponse
+      try {
+        response = { ok: true, result: await this.handleRequest(JSON.parse(buffer.slice(0, newline)) as SignerRequest) }
+      } catch (error) {
+        response = { ok: false, error: error instanceof Error ? error.message : String(error) }
+      }
+      this.reply(socket, response)
+    })
+  }
+  
+  private reply(socket: Socket, response: SignerResponse): void {
+    socket.end(JSON.stringify(response) + '\n')
+  }
+  
+  private async handleRequest(request: SignerRequest): Promise<SignerKeys | SignedMessage | SignedTransaction> {
+    switch (request.method) {
+      case 'keys':
+        return {
+          node: this.signer.nodePublicKey.toString(),
+          relays: this.signer.relayPublicKeys.map(key => key.toString()),
+          feePayer: this.signer.feePayerPublicKey?.toString() ?? null
+        }
+      case 'signMessage':
+        return this.signMessage(Buffer.from(request.message, 'base64'))
+      case 'signTransaction':
+        return this.signTransaction(Buffer.from(request.message, 'base64'), request.signers.map(signer => new PublicKey(signer)))
+      default:
+        throw new Error(`Unknown method ${(request as { method?: string }).method}`)
+    }
+  }
+  
+  private async signMessage(message: Buffer): Promise<SignedMessage> {
+    const text = message.toString('utf-8')
+    if (!Buffer.from(text, 'utf-8').equals(message) || CONTROL_CHARACTER_PATTERN.test(text)) {
+      this.logger.warn(`🚫 Refused to sign a ${message.length}-byte message that is not plain text`)
+      throw new Error('Only plain-text messages can be signed with the node key')
+    }
+    
+    this.logger.debug(`✍️ Signed ${message.length}-byte message`)
+    return { signature: Buffer.from(await this.signer.signMessage(message)).toString('base64') }
+  }
+  
+  private async signTransaction(messageBytes: Buffer, signers: PublicKey[]): Promise<SignedTransaction> {
+    if (signers.length === 0) {
+      throw new Error('No signers requested')
+    }
+    if (signers.some(signer => signer.equals(this.signer.nodePublicKey))) {
+      this.logger.warn('🚫 Refused to sign a transaction with the node key')
+      throw new Error('The node key does not sign transactions')
+    }
+    const held = [...this.signer.relayPublicKeys, ...(this.signer.feePayerPublicKey ? [this.signer.feePayerPublicKey] : [])]
+    const unknown = signers.find(signer => !held.some(key => key.equals(signer)))
+    if (unknown) {
+      throw new Error(`No transaction signing key for ${unknown.toString()}`)
+    }
+    
+    const message = Message.from(messageBytes)
+    const signerKeys = message.accountKeys.filter((_, index) => message.isAccountSigner(index))
+    const missing = signers.find(signer => !signerKeys.some(key => key.equals(signer)))
+    if (missing) {
+      throw new Error(`${missing.toString()} is not a signer of this transaction`)
+    }
+    
+    const transaction = Transaction.populate(message)
+    const check = this.policy.authorize(transaction, signers)
+    if (!check.allowed) {
+      this.logger.warn(`🚫 Refused transaction for ${signers.map(signer => signer.toString()).join(', ')}: ${check.reason}`)
+      throw new Error(`Signing policy: ${check.reason}`)
+    }
+    
+    await this.signer.signTransaction(transaction, signers)
+    this.logger.info(`✍️ Signed transaction for ${signers.map(signer => signer.toString()).join(', ')}`)
+    
+    return {
+      signatures: signers.map(signer => {
+        const signature = transaction.signatures.find(entry => entry.publicKey.equals(signer))!.signature!
+        return { publicKey: signer.toString(), signature: signature.toString('base64') }
+      })
+    }
+  }
+}
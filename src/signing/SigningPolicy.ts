@@ -0,0 +1,189 @@
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction
+} from '@solana/web3.js'
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  decodeTransferCheckedInstruction
+} from '@solana/spl-token'
+import { SignatureSpendRecord, SigningPolicyConfig } from '../types'
+import { Logger } from '../utils/Logger'
+import { getDataPath, readJsonFile, writeJsonFileAtomic } from '../utils/Storage'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Counted against the lamport caps whenever one of our keys pays for a recipient token account
+const ATA_RENT_LAMPORTS = 2_039_280
+
+// Assumed when a priority fee is set without a compute unit limit
+const MAX_COMPUTE_UNITS = 1_400_000
+
+// Instructions the daemon signs without moving value
+const ALLOWED_SYSTEM_INSTRUCTIONS = ['Transfer', 'TransferWithSeed', 'Create', 'CreateWithSeed', 'AdvanceNonceAccount', 'InitializeNonceAccount']
+
+export interface PolicyCheck {
+  allowed: boolean
+  reason?: string
+}
+
+interface TransactionSpend {
+  lamports: number
+  tokenUnits: Record<string, number>
+}
+
+// The daemon's own limits on what it signs; a compromised node can ask but not override them
+export class SigningPolicy {
+  private logger = new Logger('SigningPolicy')
+  private config: SigningPolicyConfig
+  private filePath: string
+  private records: SignatureSpendRecord[] = []
+  
+  constructor(config: SigningPolicyConfig, filePath = getDataPath('signer-spend.json')) {
+    this.config = config
+    this.filePath = filePath
+  }
+  
+  load(): void {
+    this.records = readJsonFile<SignatureSpendRecord[]>(this.filePath, [])
+    this.prune()
+    this.logger.info(`📒 Signing policy loaded: ${this.lamportsLast24h()}/${this.config.maxLamportsPerDay} lamports signed today`)
+  }
+  
+  // Check a transaction against the policy and, if allowed, count it toward the daily caps
+  authorize(transaction: Transaction, signers: PublicKey[]): PolicyCheck {
+    this.prune()
+    
+    const ours = new Set(signers.map(signer => signer.toString()))
+    let spend: TransactionSpend
+    try {
+      spend = this.measure(transaction, ours)
+    } catch (error) {
+      return { allowed: false, reason: error instanceof Error ? error.message : String(error) }
+    }
+    
+    if (spend.lamports > this.config.maxLamportsPerSignature) {
+      return { allowed: false, reason: `moves ${spend.lamports} lamports > ${this.config.maxLamportsPerSignature} per signature` }
+    }
+    
+    const lamportsToday = this.lamportsLast24h()
+    if (lamportsToday + spend.lamports > this.config.maxLamportsPerDay) {
+      return { allowed: false, reason: `would exceed daily cap: ${lamportsToday} + ${spend.lamports} > ${this.config.maxLamportsPerDay} lamports` }
+    }
+    
+    for (const [mint, units] of Object.entries(spend.tokenUnits)) {
+      const limits = this.config.tokens[mint]
+      if (!limits) {
+        return { allowed: false, reason: `mint ${mint} is not in the signing policy` }
+      }
+      if (units > limits.perSignature) {
+        return { allowed: false, reason: `moves ${units} units of ${mint} > ${limits.perSignature} per signature` }
+      }
+      
+      const unitsToday = this.tokenUnitsLast24h(mint)
+      if (unitsToday + units > limits.perDay) {
+        return { allowed: false, reason: `would exceed daily cap: ${unitsToday} + ${units} > ${limits.perDay} units of ${mint}` }
+      }
+    }
+    
+    this.records.push({ timestamp: Date.now(), ...spend })
+    writeJsonFileAtomic(this.filePath, this.records)
+    return { allowed: true }
+  }
+  
+  // Lamports and token units the transaction can take from our keys; throws on anything not allowed
+  private measure(transaction: Transaction, ours: Set<string>): TransactionSpend {
+    const spend: TransactionSpend = { lamports: 0, tokenUnits: {} }
+    const isOurs = (key: PublicKey) => ours.has(key.toString())
+    let computeUnits = MAX_COMPUTE_UNITS
+    let microLamports = 0
+    
+    for (const instruction of transaction.instructions) {
+      const programId = instruction.programId.toString()
+      if (!this.config.allowedPrograms.includes(programId)) {
+        throw new Error(`program ${programId} is not allowed`)
+      }
+      
+      if (instruction.programId.equals(SystemProgram.programId)) {
+        spend.lamports += this.measureSystemInstruction(instruction, isOurs)
+      } else if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+        const type = ComputeBudgetInstruction.decodeInstructionType(instruction)
+        if (type === 'SetComputeUnitLimit') {
+          computeUnits = ComputeBudgetInstruction.decodeSetComputeUnitLimit(instruction).units
+        } else if (type === 'SetComputeUnitPrice') {
+          microLamports = Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(instruction).microLamports)
+        } else {
+          throw new Error(`compute budget instruction ${type} is not allowed`)
+        }
+      } else if (instruction.programId.equals(TOKEN_PROGRAM_ID) || instruction.programId.equals(TOKEN_2022_PROGRAM_ID)) {
+        if (instruction.data[0] !== TokenInstruction.TransferChecked) {
+          throw new Error(`token instruction ${instruction.data[0]} is not allowed, only transferChecked`)
+        }
+        const { keys, data } = decodeTransferCheckedInstruction(instruction, instruction.programId)
+        if (isOurs(keys.owner.pubkey)) {
+          const mint = keys.mint.pubkey.toString()
+          spend.tokenUnits[mint] = (spend.tokenUnits[mint] ?? 0) + Number(data.amount)
+        }
+      } else if (instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+        if (instruction.keys[0] && isOurs(instruction.keys[0].pubkey)) {
+          spend.lamports += ATA_RENT_LAMPORTS
+        }
+      }
+    }
+    
+    // A priority fee is only ours to pay when we sign as fee payer
+    if (transaction.feePayer && isOurs(transaction.feePayer)) {
+      spend.lamports += Math.ceil(computeUnits * microLamports / 1_000_000)
+    }
+    
+    return spend
+  }
+  
+  private measureSystemInstruction(instruction: TransactionInstruction, isOurs: (key: PublicKey) => boolean): number {
+    const type = SystemInstruction.decodeInstructionType(instruction)
+    if (!ALLOWED_SYSTEM_INSTRUCTIONS.includes(type)) {
+      throw new Error(`system instruction ${type} is not allowed`)
+    }
+    
+    switch (type) {
+      case 'Transfer': {
+        const { fromPubkey, lamports } = SystemInstruction.decodeTransfer(instruction)
+        return isOurs(fromPubkey) ? Number(lamports) : 0
+      }
+      case 'TransferWithSeed': {
+        const { fromPubkey, lamports } = SystemInstruction.decodeTransferWithSeed(instruction)
+        return isOurs(fromPubkey) ? Number(lamports) : 0
+      }
+      case 'Create': {
+        const { fromPubkey, lamports } = SystemInstruction.decodeCreateAccount(instruction)
+        return isOurs(fromPubkey) ? lamports : 0
+      }
+      case 'CreateWithSeed': {
+        const { fromPubkey, lamports } = SystemInstruction.decodeCreateWithSeed(instruction)
+        return isOurs(fromPubkey) ? lamports : 0
+      }
+      default:
+        return 0
+    }
+  }
+  
+  private lamportsLast24h(): number {
+    return this.records.reduce((total, record) => total + record.lamports, 0)
+  }
+  
+  private tokenUnitsLast24h(mint: string): number {
+    return this.records.reduce((total, record) => total + (record.tokenUnits[mint] ?? 0), 0)
+  }
+  
+  private prune(): void {
+    const cutoff = Date.now() - DAY_MS
+    this.records = this.records.filter(record => record.timestamp > cutoff)
+  }
+}
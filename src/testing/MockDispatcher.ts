@@ -0,0 +1,537 @@
+import http from 'http'
+import { randomUUID } from 'crypto'
+import { Duplex } from 'stream'
+import { Keypair, PublicKey, Transaction } from '@solana/web3.js'
+import { sign } from 'tweetnacl'
+import { WebSocketServer, WebSocket } from 'ws'
+import { Offer, OfferAcceptance, ExecutionReceipt, HeartbeatData, OfferStreamMessage, PrivacyWarning, OfferDecline, CosignRequest, CosignResponse, DispatcherAck, DispatcherAckResponse, DispatcherSignature } from '../types'
+import { Logger } from '../utils/Logger'
+import { DispatcherPayloadKind, dispatcherMessage } from '../api/DispatcherVerifier'
+import { NODE_AUTH_VERSION, nodeAuthMessage } from '../api/NodeAuth'
+
+export type MockRoute = 'ping' | 'offers' | 'stream' | 'accept' | 'receipt' | 'heartbeat' | 'privacyWarning' | 'decline' | 'sponsor' | 'cosign'
+
+export interface MockFailure {
+  status: number
+  times: number
+  delayMs?: number
+}
+
+export interface MockOfferState {
+  offer: Offer
+  status: 'open' | 'accepted' | 'claimed' | 'expired'
+  acceptedBy?: string
+}
+
+export interface MockDispatcherOptions {
+  port?: number
+  maxClockSkewMs?: number
+  // Run the dispatcher clock this far ahead of the host's, to exercise skew correction
+  clockOffsetMs?: number
+  allowedNodes?: string[]
+  sponsorKeypair?: Keypair
+  // Key offers and acknowledgments are signed with; pin its public key in dispatcher.signingKeys
+  signingKeypair?: Keypair
+}
+
+export class MockDispatcher {
+  private logger = new Logger('MockDispatcher')
+  private server?: http.Server
+  private wsServer = new WebSocketServer({ noServer: true })
+  private port: number
+  private maxClockSkewMs: number
+  private clockOffsetMs: number
+  private allowedNodes: Set<string> | null
+  private sponsorKeypair: Keypair
+  private signingKeypair: Keypair
+  
+  private offers = new Map<string, MockOfferState>()
+  private failures = new Map<MockRoute, MockFailure>()
+  private sseClients = new Set<http.ServerResponse>()
+  private wsClients = new Set<WebSocket>()
+  private scheduledTimers = new Set<NodeJS.Timeout>()
+  private seenNonces = new Map<string, number>()
+  
+  // Everything the node submitted, for assertions
+  public readonly acceptances: OfferAcceptance[] = []
+  public readonly receipts: ExecutionReceipt[] = []
+  public readonly heartbeats: HeartbeatData[] = []
+  public readonly privacyWarnings: PrivacyWarning[] = []
+  public readonly declines: OfferDecline[] = []
+  public readonly cosignRequests: CosignRequest[] = []
+  public readonly rejectedRequests: { path: string; reason: string }[] = []
+  
+  constructor(options: MockDispatcherOptions = {}) {
+    this.port = options.port ?? parseInt(process.env.MOCK_DISPATCHER_PORT || '8787')
+    this.maxClockSkewMs = options.maxClockSkewMs ?? 60000
+    this.clockOffsetMs = options.clockOffsetMs ?? 0
+    this.allowedNodes = options.allowedNodes ? new Set(options.allowedNodes) : null
+    this.sponsorKeypair = options.sponsorKeypair ?? Keypair.generate()
+    this.signingKeypair = options.signingKeypair ?? Keypair.generate()
+  }
+  
+  get url(): string {
+    return `http://127.0.0.1:${this.port}`
+  }
+  
+  get signingPublicKey(): string {
+    return this.signingKeypair.publicKey.toString()
+  }
+  
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer((req, res) => {
+        this.handleRequest(req, res).catch((error) => {
+          this.logger.error('Request handler error:', error)
+          this.sendJson(res, 500, { error: 'Internal server error' })
+        })
+      })
+      this.server.on('upgrade', this.handleUpgrade.bind(this))
+      
+      this.server.listen(this.port, () => {
+        const address = this.server!.address()
+        if (address && typeof address === 'object') {
+          this.port = address.port
+        }
+        this.logger.info(`🧪 Mock dispatcher listening on ${this.url}`)
+        resolve()
+      })
+      
+      this.server.on('error', reject)
+    })
+  }
+  
+  async stop(): Promise<void> {
+    this.scheduledTimers.forEach(timer => clearTimeout(timer))
+    this.scheduledTimers.clear()
+    this.sseClients.forEach(res => res.end())
+    this.sseClients.clear()
+    this.wsClients.forEach(ws => ws.terminate())
+    this.wsClients.clear()
+    this.wsServer.close()
+    
+    if (!this.server) return
+    
+    return new Promise((resolve) => {
+      this.server!.closeAllConnections()
+      this.server!.close(() => {
+        this.logger.info('🧪 Mock dispatcher stopped')
+        resolve()
+      })
+    })
+  }
+  
+  // --- Scripting API ---
+  
+  addOffer(partial: Partial<Offer> = {}): Offer {
+    const offer: Offer = {
+      id: partial.id ?? randomUUID(),
+      partId: partial.partId ?? randomUUID(),
+      asset: partial.asset ?? 'SOL',
+      amount: partial.amount ?? '10000000',
+      recipient: partial.recipient ?? '11111111111111111111111111111111',
+      feeLamports: partial.feeLamports ?? 50000,
+      expiresAt: partial.expiresAt ?? Date.now() + 5 * 60 * 1000,
+      ...(partial.metadata && { metadata: partial.metadata })
+    }
+    // A caller-supplied signature is kept as is, to script forged offers
+    offer.dispatcherSignature = partial.dispatcherSignature ?? this.signPayload('offer', offer)
+    
+    this.offers.set(offer.id, { offer, status: 'open' })
+    this.broadcast(offer)
+    this.logger.info(`📨 Offer ${offer.id} published (${offer.asset} ${offer.amount})`)
+    
+    return offer
+  }
+  
+  emitOffers(offers: Partial<Offer>[], intervalMs: number): void {
+    offers.forEach((offer, index) => {
+      const timer = setTimeout(() => {
+        this.scheduledTimers.delete(timer)
+        this.addOffer(offer)
+      }, index * intervalMs)
+      this.scheduledTimers.add(timer)
+    })
+  }
+  
+  expireOffer(offerId: string): void {
+    const state = this.offers.get(offerId)
+    if (!state) return
+    
+    state.status = 'expired'
+    state.offer.expiresAt = Date.now()
+  }
+  
+  // Simulate another node winning the accept race
+  claimOffer(offerId: string, nodeId = 'competing-node'): void {
+    const state = this.offers.get(offerId)
+    if (!state) return
+    
+    state.status = 'claimed'
+    state.acceptedBy = nodeId
+  }
+  
+  injectFailure(route: MockRoute, failure: MockFailure): void {
+    this.failures.set(route, { ...failure })
+  }
+  
+  clearFailures(): void {
+    this.failures.clear()
+  }
+  
+  getOffer(offerId: string): MockOfferState | undefined {
+    return this.offers.get(offerId)
+  }
+  
+  disconnectStreams(): void {
+    this.sseClients.forEach(res => res.destroy())
+    this.sseClients.clear()
+    this.wsClients.forEach(ws => ws.terminate())
+    this.wsClients.clear()
+  }
+  
+  async waitForReceipts(count: number, timeoutMs = 30000): Promise<ExecutionReceipt[]> {
+    const start = Date.now()
+    
+    while (this.receipts.length < count) {
+      if (Date.now() - start > timeoutMs) {
+        throw new Error(`Timed out waiting for ${count} receipts (got ${this.receipts.length})`)
+      }
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    
+    return this.receipts
+  }
+  
+  // --- HTTP handling ---
+  
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = req.url || '/'
+    const url = new URL(path, this.url)
+    const body = await this.readBody(req)
+    
+    if (url.pathname.startsWith('/__mock/')) {
+      this.handleControl(req.method || 'GET', url.pathname, body, res)
+      return
+    }
+    
+    const route = this.routeFor(req.method || 'GET', url.pathname)
+    if (!route) {
+      this.sendJson(res, 404, { error: 'Not found' })
+      return
+    }
+    
+    const authError = this.verifyAuth(req.headers, req.method || 'GET', path, body)
+    if (authError) {
+      this.rejectedRequests.push({ path, reason: authError })
+      this.logger.warn(`🚫 Rejected ${req.method} ${path}: ${authError}`)
+      this.sendJson(res, 401, { error: authError })
+      return
+    }
+    
+    if (await this.applyFailure(route, res)) return
+    
+    switch (route) {
+      case 'ping':
+        this.sendJson(res, 200, { ok: true, timestamp: this.now() })
+        break
+      case 'offers':
+        this.sendJson(res, 200, { offers: this.openOffersSince(url.searchParams.get('since')) })
+        break
+      case 'stream':
+        this.openSseStream(req, res, url.searchParams.get('since'))
+        break
+      case 'accept':
+        this.handleAccept(req.headers, body, res)
+        break
+      case 'receipt': {
+        const receipt = JSON.parse(body) as ExecutionReceipt
+        this.receipts.push(receipt)
+        this.sendAck(res, {
+          type: 'receipt',
+          nodeId: String(req.headers['x-node-pubkey']),
+          partId: receipt.partId,
+          txSignature: receipt.txSignature,
+          timestamp: Date.now()
+        })
+        break
+      }
+      case 'heartbeat':
+        this.heartbeats.push(JSON.parse(body) as HeartbeatData)
+        this.sendJson(res, 200, { ok: true })
+        break
+      case 'sponsor':
+        this.sendJson(res, 200, { feePayer: this.sponsorKeypair.publicKey.toString() })
+        break
+      case 'cosign':
+        this.handleCosign(body, res)
+        break
+      case 'privacyWarning':
+        this.privacyWarnings.push(JSON.parse(body) as PrivacyWarning)
+        this.sendJson(res, 200, { ok: true })
+        break
+      case 'decline':
+        this.declines.push(JSON.parse(body) as OfferDecline)
+        this.sendJson(res, 200, { ok: true })
+        break
+    }
+  }
+  
+  private routeFor(method: string, pathname: string): MockRoute | null {
+    if (method === 'GET' && pathname === '/api/node/ping') return 'ping'
+    if (method === 'GET' && pathname === '/api/node/offers') return 'offers'
+    if (method === 'GET' && pathname === '/api/node/offers/stream') return 'stream'
+    if (method === 'POST' && pathname === '/api/node/accept') return 'accept'
+    if (method === 'POST' && pathname === '/api/node/receipt') return 'receipt'
+    if (method === 'POST' && pathname === '/api/node/heartbeat') return 'heartbeat'
+    if (method === 'POST' && pathname === '/api/node/privacy-warning') return 'privacyWarning'
+    if (method === 'POST' && pathname === '/api/node/decline') return 'decline'
+    if (method === 'GET' && pathname === '/api/node/sponsor') return 'sponsor'
+    if (method === 'POST' && pathname === '/api/node/cosign') return 'cosign'
+    return null
+  }
+  
+  private handleAccept(headers: http.IncomingHttpHeaders, body: string, res: http.ServerResponse): void {
+    const acceptance = JSON.parse(body) as OfferAcceptance
+    const state = this.offers.get(acceptance.offerId)
+    
+    if (!state) {
+      this.sendJson(res, 404, { error: 'Unknown offer' })
+      return
+    }
+    
+    if (state.status === 'open' && state.offer.expiresAt && Date.now() > state.offer.expiresAt) {
+      state.status = 'expired'
+    }
+    
+    if (state.status === 'expired') {
+      this.sendJson(res, 410, { error: 'Offer expired' })
+      return
+    }
+    
+    if (state.status !== 'open') {
+      this.sendJson(res, 409, { error: 'Offer already accepted', acceptedBy: state.acceptedBy })
+      return
+    }
+    
+    state.status = 'accepted'
+    state.acceptedBy = String(headers['x-node-pubkey'])
+    this.acceptances.push(acceptance)
+    this.sendAck(res, { type: 'accept', nodeId: acceptance.nodeId, offerId: acceptance.offerId, timestamp: Date.now() })
+  }
+  
+  private handleCosign(body: string, res: http.ServerResponse): void {
+    const request = JSON.parse(body) as CosignRequest
+    const state = this.offers.get(request.offerId)
+    
+    if (!state || state.status !== 'accepted') {
+      this.sendJson(res, 409, { error: 'Offer is not accepted' })
+      return
+    }
+    
+    const transaction = Transaction.from(Buffer.from(request.transaction, 'base64'))
+    if (!transaction.feePayer?.equals(this.sponsorKeypair.publicKey)) {
+      this.sendJson(res, 400, { error: 'Fee payer is not the sponsor' })
+      return
+    }
+    
+    transaction.partialSign(this.sponsorKeypair)
+    this.cosignRequests.push(request)
+    
+    const response: CosignResponse = { transaction: transaction.serialize().toString('base64') }
+    this.sendJson(res, 200, response)
+  }
+  
+  private handleControl(method: string, pathname: string, body: string, res: http.ServerResponse): void {
+    const payload = body ? JSON.parse(body) : {}
+    
+    if (method === 'POST' && pathname === '/__mock/offers') {
+      this.sendJson(res, 201, this.addOffer(payload as Partial<Offer>))
+    } else if (method === 'POST' && pathname === '/__mock/expire') {
+      this.expireOffer(payload.offerId)
+      this.sendJson(res, 200, { ok: true })
+    } else if (method === 'POST' && pathname === '/__mock/claim') {
+      this.claimOffer(payload.offerId)
+      this.sendJson(res, 200, { ok: true })
+    } else if (method === 'POST' && pathname === '/__mock/failures') {
+      this.injectFailure(payload.route as MockRoute, payload as MockFailure)
+      this.sendJson(res, 200, { ok: true })
+    } else if (method === 'DELETE' && pathname === '/__mock/failures') {
+      this.clearFailures()
+      this.sendJson(res, 200, { ok: true })
+    } else if (method === 'GET' && pathname === '/__mock/state') {
+      this.sendJson(res, 200, {
+        offers: Array.from(this.offers.values()),
+        acceptances: this.acceptances,
+        receipts: this.receipts,
+        heartbeats: this.heartbeats,
+        privacyWarnings: this.privacyWarnings,
+        declines: this.declines,
+        rejectedRequests: this.rejectedRequests
+      })
+    } else {
+      this.sendJson(res, 404, { error: 'Unknown control endpoint' })
+    }
+  }
+  
+  private verifyAuth(headers: http.IncomingHttpHeaders, method: string, path: string, body: string): string | null {
+    const pubkey = headers['x-node-pubkey']
+    const signature = headers['x-signature']
+    const timestamp = headers['x-timestamp']
+    const nonce = headers['x-nonce']
+    
+    if (typeof pubkey !== 'string' || typeof signature !== 'string' || typeof timestamp !== 'string' || typeof nonce !== 'string') {
+      return 'Missing authentication headers'
+    }
+    
+    if (headers['x-auth-version'] !== NODE_AUTH_VERSION) {
+      return `Unsupported auth version, expected ${NODE_AUTH_VERSION}`
+    }
+    
+    if (this.allowedNodes && !this.allowedNodes.has(pubkey)) {
+      return 'Unknown node'
+    }
+    
+    const now = this.now()
+    if (Math.abs(now - parseInt(timestamp)) > this.maxClockSkewMs) {
+      return 'Timestamp outside allowed window'
+    }
+    
+    // Nonces only need remembering while their timestamp is still inside the window
+    for (const [seen, seenAt] of this.seenNonces) {
+      if (now - seenAt <= 2 * this.maxClockSkewMs) break
+      this.seenNonces.delete(seen)
+    }
+    if (this.seenNonces.has(`${pubkey}:${nonce}`)) {
+      return 'Replayed nonce'
+    }
+    
+    try {
+      const message = nodeAuthMessage({ host: headers.host ?? '', timestamp, nonce, method, path, body })
+      const valid = sign.detached.verify(
+        message,
+        Buffer.from(signature, 'base64'),
+        new PublicKey(pubkey).toBytes()
+      )
+      if (!valid) return 'Invalid signature'
+    } catch {
+      return 'Malformed authentication headers'
+    }
+    
+    this.seenNonces.set(`${pubkey}:${nonce}`, now)
+    return null
+  }
+  
+  private async applyFailure(route: MockRoute, res: http.ServerResponse): Promise<boolean> {
+    const failure = this.failures.get(route)
+    if (!failure || failure.times <= 0) return false
+    
+    failure.times--
+    if (failure.times <= 0) {
+      this.failures.delete(route)
+    }
+    
+    if (failure.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, failure.delayMs))
+    }
+    
+    this.sendJson(res, failure.status, { error: `Injected failure (${failure.status})` })
+    return true
+  }
+  
+  // --- Offer streaming ---
+  
+  private openSseStream(req: http.IncomingMessage, res: http.ServerResponse, since: string | null): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    })
+    res.write(': connected\n\n')
+    
+    const cursor = since ?? (req.headers['last-event-id'] as string | undefined) ?? null
+    this.openOffersSince(cursor).forEach(offer => this.writeSseOffer(res, offer))
+    
+    this.sseClients.add(res)
+    req.on('close', () => this.sseClients.delete(res))
+  }
+  
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const path = req.url || '/'
+    const url = new URL(path, this.url)
+    
+    if (url.pathname !== '/api/node/offers/ws') {
+      socket.destroy()
+      return
+    }
+    
+    const authError = this.verifyAuth(req.headers, 'GET', path, '')
+    if (authError) {
+      this.rejectedRequests.push({ path, reason: authError })
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n')
+      socket.destroy()
+      return
+    }
+    
+    this.wsServer.handleUpgrade(req, socket, head, (ws) => {
+      this.wsClients.add(ws)
+      ws.on('close', () => this.wsClients.delete(ws))
+      
+      this.openOffersSince(url.searchParams.get('since')).forEach(offer => {
+        ws.send(JSON.stringify({ type: 'offer', offer } satisfies OfferStreamMessage))
+      })
+    })
+  }
+  
+  private broadcast(offer: Offer): void {
+    this.sseClients.forEach(res => this.writeSseOffer(res, offer))
+    
+    const message = JSON.stringify({ type: 'offer', offer } satisfies OfferStreamMessage)
+    this.wsClients.forEach(ws => ws.send(message))
+  }
+  
+  private writeSseOffer(res: http.ServerResponse, offer: Offer): void {
+    res.write(`id: ${offer.id}\nevent: offer\ndata: ${JSON.stringify(offer)}\n\n`)
+  }
+  
+  private openOffersSince(cursor: string | null): Offer[] {
+    const states = Array.from(this.offers.values())
+    const start = cursor ? states.findIndex(state => state.offer.id === cursor) + 1 : 0
+    
+    return states
+      .slice(start)
+      .filter(state => state.status === 'open')
+      .map(state => state.offer)
+  }
+  
+  // --- Helpers ---
+  
+  private now(): number {
+    return Date.now() + this.clockOffsetMs
+  }
+  
+  private signPayload(kind: DispatcherPayloadKind, payload: object): DispatcherSignature {
+    const signature = sign.detached(dispatcherMessage(kind, payload), this.signingKeypair.secretKey)
+    return { signingKey: this.signingPublicKey, signature: Buffer.from(signature).toString('base64') }
+  }
+  
+  private sendAck(res: http.ServerResponse, ack: DispatcherAck): void {
+    const response: DispatcherAckResponse = { ok: true, ack, dispatcherSignature: this.signPayload('ack', ack) }
+    this.sendJson(res, 200, response)
+  }
+  
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let data = ''
+      req.on('data', chunk => { data += chunk })
+      req.on('end', () => resolve(data))
+      req.on('error', reject)
+    })
+  }
+  
+  private sendJson(res: http.ServerResponse, status: number, payload: unknown): void {
+    if (res.headersSent) return
+    res.writeHead(status, { 'Content-Type': 'application/json', Date: new Date(this.now()).toUTCString() })
+    res.end(JSON.stringify(payload))
+  }
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token'
+import { AssetSymbol, NodeConfig, SolanaCluster } from '../types'
+import { Logger } from '../utils/Logger'
+
+export interface TokenInfo {
+  symbol: AssetSymbol
+  mint: PublicKey
+  decimals: number
+  programId: PublicKey
+}
+
+export const NATIVE_ASSET = 'SOL'
+export const NATIVE_DECIMALS = 9
+
+const GENESIS_HASHES: Record<string, SolanaCluster> = {
+  '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d': 'mainnet-beta',
+  'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG': 'devnet',
+  '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY': 'testnet'
+}
+
+export class TokenRegistry {
+  private logger = new Logger('TokenRegistry')
+  private config: NodeConfig
+  private cluster: SolanaCluster | null = null
+  private tokens = new Map<AssetSymbol, TokenInfo>()
+  
+  constructor(config: NodeConfig) {
+    this.config = config
+  }
+  
+  async init(connection: Connection): Promise<void> {
+    this.cluster = (process.env.SOLANA_CLUSTER as SolanaCluster) || await this.detectCluster(connection)
+    
+    const configured = this.config.tokens[this.cluster] ?? {}
+    this.tokens.clear()
+    
+    for (const [symbol, token] of Object.entries(configured)) {
+      this.tokens.set(symbol, {
+        symbol,
+        mint: new PublicKey(token.mint),
+        decimals: token.decimals,
+        programId: token.program === 'token-2022' ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID
+      })
+    }
+    
+    const symbols = Array.from(this.tokens.keys()).join(', ') || 'none'
+    this.logger.info(`🪙 Token registry loaded for ${this.cluster} (tokens: ${symbols})`)
+  }
+  
+  getCluster(): SolanaCluster {
+    if (!this.cluster) {
+      throw new Error('Token registry has not been initialized')
+    }
+    return this.cluster
+  }
+  
+  isSupported(asset: AssetSymbol): boolean {
+    return asset === NATIVE_ASSET || this.tokens.has(asset)
+  }
+  
+  isNative(asset: AssetSymbol): boolean {
+    return asset === NATIVE_ASSET
+  }
+  
+  get(asset: AssetSymbol): TokenInfo {
+    const token = this.tokens.get(asset)
+    if (!token) {
+      throw new Error(`Unsupported asset on ${this.cluster}: ${asset}`)
+    }
+    return token
+  }
+  
+  getDecimals(asset: AssetSymbol): number {
+    return this.isNative(asset) ? NATIVE_DECIMALS : this.get(asset).decimals
+  }
+  
+  list(): TokenInfo[] {
+    return Array.from(this.tokens.values())
+  }
+  
+  private async detectCluster(connection: Connection): Promise<SolanaCluster> {
+    const genesisHash = await connection.getGenesisHash()
+    const cluster = GENESIS_HASHES[genesisHash]
+    
+    if (!cluster) {
+      this.logger.warn(`Unknown genesis hash ${genesisHash}, assuming localnet`)
+      return 'localnet'
+    }
+    
+    return cluster
+  }
+}
\ No newline at end of file
@@ -1,7 +1,10 @@
+// 'SOL' for native transfers, otherwise a token symbol from the registry (e.g. 'USDC')
+export type AssetSymbol = string
+
 export interface Offer {
   id: string
   partId: string
-  asset: 'SOL' | 'USDC'
+  asset: AssetSymbol
   amount: string
   recipient: string
   feeLamports: number
@@ -11,6 +14,36 @@ export interface Offer {
     partIndex: number
     totalParts: number
   }
+  // Dispatcher ed25519 signature over every other field of the offer
+  dispatcherSignature?: DispatcherSignature
+}
+
+export interface DispatcherSignature {
+  // Base58 public key of the dispatcher key that signed, one of dispatcher.signingKeys
+  signingKey: string
+  // Base64 detached ed25519 signature
+  signature: string
+}
+
+// What the dispatcher signs to confirm it recorded an accept or a receipt from this node
+export interface DispatcherAck {
+  type: 'accept' | 'receipt'
+  nodeId: string
+  offerId?: string
+  partId?: string
+  txSignature?: string
+  timestamp: number
+}
+
+// The dispatcher answered with success but its acknowledgment didn't verify: it may or may not
+// have recorded the request, so it is neither retried nor treated as done
+export type AcceptOutcome = 'accepted' | 'claimed' | 'ack_unverified'
+export type ReceiptOutcome = 'acknowledged' | 'ack_unverified'
+
+export interface DispatcherAckResponse {
+  ok: boolean
+  ack?: DispatcherAck
+  dispatcherSignature?: DispatcherSignature
 }
 
 export interface OfferAcceptance {
@@ -27,6 +60,42 @@ export interface ExecutionReceipt {
   timestamp: number
   success: boolean
   error?: string
+  feePayerMode?: FeePayerMode
+  feePayer?: string
+  priorityFeeLamports?: number
+  outcome?: ExecutionOutcome
+  // Exact figures from the landed transaction's metadata
+  networkFeeLamports?: number
+  rentLamports?: number
+  relayLamportsDelta?: number
+  relayTokenUnitsDelta?: number
+  slot?: number
+  blockTime?: number | null
+}
+
+export interface SpendAccounting {
+  spentLamports: number
+  networkFeeLamports: number
+  rentLamports: number
+  relayLamportsDelta: number
+  relayTokenUnitsDelta?: number
+  slot: number
+  blockTime: number | null
+}
+
+// confirmed: landed successfully; failed: rejected or landed with an error; expired: blockhash
+// died before it landed; unknown: no final answer before the confirm timeout, it may still land
+export type ExecutionOutcome = 'confirmed' | 'failed' | 'expired' | 'unknown'
+
+export type FeePayerMode = 'relay' | 'self' | 'sponsored'
+
+export interface CosignRequest {
+  offerId: string
+  transaction: string
+}
+
+export interface CosignResponse {
+  transaction: string
 }
 
 export interface HeartbeatData {
@@ -35,19 +104,25 @@ export interface HeartbeatData {
   balances: WalletBalance[]
   activeOffers: number
   version: string
+  limits?: LimitUtilization
 }
 
 export interface WalletBalance {
   publicKey: string
   balanceSOL: number
-  balanceUSDC?: number
+  tokenBalances?: Record<AssetSymbol, number>
   isActive: boolean
+  // Taken out of rotation by an operator, regardless of balance
+  deactivated?: boolean
+  usageCount?: number
+  nonceAccount?: string
 }
 
 export interface NodeConfig {
   version: string
   node: {
     maxConcurrent: number
+    reportDeclines: boolean
     timeout: {
       heartbeatMs: number
       offerTimeoutMs: number
@@ -62,8 +137,24 @@ export interface NodeConfig {
   limits: {
     perTxLamports: number
     perDayLamports: number
+    tokenUnits: Record<AssetSymbol, { perTx: number; perDay: number }>
     maxPartsPerHour: number
   }
+  tokens: Record<SolanaCluster, Record<AssetSymbol, TokenConfig>>
+  fees: {
+    priorityFeePercentile: number
+    minMicroLamports: number
+    maxPriorityFeeLamports: number
+    escalationMultiplier: number
+  }
+  nonce: {
+    enabled: boolean
+    autoCreate: boolean
+  }
+  profitability: {
+    minMarginLamports: number
+    minFeeLamportsWithAtaCreation: number
+  }
   rotation: {
     strategy: 'round_robin' | 'least_used' | 'random'
     rebalanceThreshold: number
@@ -72,6 +163,8 @@ export interface NodeConfig {
   privacy: {
     avoidPercents: number[]
     delayJitterSec: [number, number]
+    minSiblingSpacingSec: number
+    fingerprintAction: 'decline' | 'warn'
     rotateOnLowBalance: boolean
     randomizeOrder: boolean
   }
@@ -93,13 +186,34 @@ export interface NodeConfig {
       offersPerMinute: number
     }
   }
+  admin: {
+    enabled: boolean
+    host: string
+    port: number
+    // Base58 ed25519 public keys allowed to sign admin requests
+    authorizedKeys: string[]
+    maxClockSkewSec: number
+  }
+  dispatcher: {
+    // Base58 ed25519 public keys the dispatcher signs offers and acknowledgments with; list the
+    // incoming key next to the current one while the dispatcher rotates
+    signingKeys: string[]
+    // Accept unsigned offers and acknowledgments; only honoured while signingKeys is empty, and
+    // lets anyone who can tamper with dispatcher responses redirect relay funds
+    insecureAllowUnsigned: boolean
+    // Warn when the local clock is further than this from the dispatcher's
+    maxClockSkewSec: number
+  }
 }
 
 export interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy'
   uptime: number
+  intake?: IntakeState
   wallets: WalletBalance[]
   activeOffers: number
+  limits?: LimitUtilization
+  scheduled?: ScheduledPart[]
   metrics: MetricsSnapshot
 }
 
@@ -110,6 +224,15 @@ export interface MetricsSnapshot {
   offersFailed: number
   avgExecutionTime: number
   totalEarnings: number
+  priorityFeesLamports: number
+  fingerprintFindings: Record<FingerprintFinding['kind'], number>
+  feasibilityDeclines: Partial<Record<FeasibilityDeclineReason, number>>
+  profitability: {
+    accepted: number
+    declined: number
+    estimatedMarginLamports: number
+    lastMarginLamports: number
+  }
   uptime: number
 }
 
@@ -117,4 +240,248 @@ export interface ValidationResult {
   valid: boolean
   errors: string[]
   warnings?: string[]
+}
+
+export type OfferTransport = 'sse' | 'websocket' | 'poll'
+
+export interface OfferStreamMessage {
+  type: 'offer' | 'ping'
+  offer?: Offer
+}
+
+export type JournalStage =
+  | 'accepted'
+  | 'tx_built'
+  | 'broadcast'
+  | 'confirmed'
+  | 'receipt_submitted'
+  | 'ack_unverified'
+
+export interface JournalRecord {
+  offerId: string
+  stage: JournalStage
+  timestamp: number
+  offer?: Offer
+  signature?: string
+  relayWallet?: string
+  lastValidBlockHeight?: number
+  nonceAccount?: string
+  nonce?: string
+  rawTransaction?: string
+  spentLamports?: number
+  receipt?: ExecutionReceipt
+  // Planned execution slot, so a part still waiting on its privacy delay can resume after a restart
+  scheduledAt?: number
+}
+
+export interface JournalEntry {
+  offer: Offer
+  stage: JournalStage
+  updatedAt: number
+  signature?: string
+  relayWallet?: string
+  lastValidBlockHeight?: number
+  nonceAccount?: string
+  nonce?: string
+  rawTransaction?: string
+  spentLamports?: number
+  receipt?: ExecutionReceipt
+  scheduledAt?: number
+}
+
+export interface ExecutionOptions {
+  excludeWallets?: string[]
+  onProgress?: (progress: ExecutionProgress) => void
+}
+
+export interface ExecutionProgress {
+  stage: 'tx_built' | 'broadcast'
+  signature: string
+  relayWallet: string
+  lastValidBlockHeight?: number
+  nonceAccount?: string
+  nonce?: string
+  rawTransaction: string
+  spentLamports: number
+}
+
+// What keeps a signed transaction valid: a recent blockhash, or the current value of a durable nonce
+export type TransactionLifetime =
+  | { kind: 'blockhash'; lastValidBlockHeight: number }
+  | { kind: 'nonce'; nonceAccount: string; nonce: string }
+
+export interface SpendRecord {
+  offerId: string
+  asset: Offer['asset']
+  timestamp: number
+  lamports: number
+  tokenUnits: number
+}
+
+// Signing daemon policy, independent of the node's own limits; token limits are keyed by mint
+export interface SigningPolicyConfig {
+  maxLamportsPerSignature: number
+  maxLamportsPerDay: number
+  tokens: Record<string, { perSignature: number; perDay: number }>
+  allowedPrograms: string[]
+}
+
+export interface SignatureSpendRecord {
+  timestamp: number
+  lamports: number
+  tokenUnits: Record<string, number>
+}
+
+export interface LimitUtilization {
+  lamportsLast24h: number
+  perDayLamports: number
+  tokenUnitsLast24h: Record<AssetSymbol, number>
+  perDayTokenUnits: Record<AssetSymbol, number>
+  partsLastHour: number
+  maxPartsPerHour: number
+}
+
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet'
+
+export interface TokenConfig {
+  mint: string
+  decimals: number
+  program: 'spl-token' | 'token-2022'
+}
+export interface ScheduledPart {
+  offerId: string
+  partId: string
+  asset: Offer['asset']
+  scheduledAt: number
+  expiresAt?: number
+}
+
+// One confirmed part as booked in the earnings ledger; costs are what our own wallets paid
+export interface EarningsRecord {
+  offerId: string
+  partId: string
+  requestId?: string
+  asset: AssetSymbol
+  amount: string
+  relayWallet: string
+  txSignature: string
+  completedAt: number
+  feePayerMode: FeePayerMode
+  feeLamports: number
+  networkFeeLamports: number
+  rentLamports: number
+  costLamports: number
+  netLamports: number
+  // False when the landed transaction couldn't be fetched and costs are the executor's estimate
+  exactCosts: boolean
+}
+
+export interface PayoutRecord {
+  signature: string
+  slot: number
+  receivedAt: number
+  lamports: number
+  from: string
+}
+
+export interface EarningsSummaryRow {
+  // UTC date (YYYY-MM-DD) or relay wallet, depending on the grouping
+  key: string
+  parts: number
+  feeLamports: number
+  costLamports: number
+  netLamports: number
+}
+
+export interface EarningsReconciliation {
+  payoutAddress: string
+  expectedLamports: number
+  receivedLamports: number
+  outstandingLamports: number
+  payouts: number
+  lastPayoutAt: number | null
+  days: Array<{ day: string; earnedLamports: number; paidLamports: number; outstandingLamports: number }>
+}
+
+// 'draining' stops intake for good and becomes 'drained' once no accepted offer is left
+export type IntakeState = 'accepting' | 'paused' | 'draining' | 'drained'
+
+export interface AdminOffer {
+  offerId: string
+  partId: string
+  asset: AssetSymbol
+  amount: string
+  state: 'scheduled' | 'executing'
+  stage?: JournalStage
+  scheduledAt?: number
+  expiresAt?: number
+  relayWallet?: string
+  signature?: string
+}
+
+export interface AuditEntry {
+  timestamp: number
+  // Public key that signed the request; null when authentication failed before one was known
+  admin: string | null
+  action: string
+  outcome: 'ok' | 'denied' | 'error'
+  detail?: string
+  remoteAddress?: string
+}
+
+export interface SiblingPart {
+  offerId: string
+  partIndex: number
+  amount: string
+  slotAt: number
+  relayWallet?: string
+}
+
+export interface FingerprintFinding {
+  kind: 'sibling_fraction' | 'round_amount'
+  detail: string
+}
+
+export type FeasibilityDeclineReason =
+  | 'invalid_recipient'
+  | 'insufficient_balance'
+  | 'simulation_failed'
+  | 'rpc_error'
+
+export interface FeasibilityResult {
+  feasible: boolean
+  reason?: FeasibilityDeclineReason
+  detail?: string
+  relayWallet?: string
+}
+
+export interface CostEstimate {
+  baseFeeLamports: number
+  priorityFeeLamports: number
+  ataRentLamports: number
+  totalLamports: number
+}
+
+export interface ProfitabilityDecision {
+  accept: boolean
+  reason?: string
+  feeLamports: number
+  cost: CostEstimate
+  marginLamports: number
+}
+
+export interface OfferDecline {
+  offerId: string
+  partId: string
+  reason: FeasibilityDeclineReason | 'unverified_ack'
+  detail: string
+  timestamp: number
+}
+
+export interface PrivacyWarning {
+  offerId: string
+  partId: string
+  requestId?: string
+  findings: FingerprintFinding[]
+  timestamp: number
 }
\ No newline at end of file
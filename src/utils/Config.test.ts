@@ -0,0 +1,29 @@
+import { reloadConfig } from './Config'
+
+describe('Config env overrides', () => {
+  const env = process.env
+  
+  beforeEach(() => {
+    process.env = { ...env, LOG_LEVEL: 'error', SHH_DISPATCHER_SIGNING_KEYS: JSON.stringify(['11111111111111111111111111111111']) }
+  })
+  
+  afterEach(() => {
+    process.env = env
+  })
+  
+  it('sets nested fields from SHH_* variables', () => {
+    process.env.SHH_MONITORING_LOG_ROTATION_MAX_FILES = '7'
+    process.env.SHH_PRIVACY_DELAY_JITTER_SEC = '[0,300]'
+    
+    const config = reloadConfig()
+    
+    expect(config.monitoring.logRotation.maxFiles).toBe(7)
+    expect(config.privacy.delayJitterSec).toEqual([0, 300])
+  })
+  
+  it('names the env var that set an invalid value', () => {
+    process.env.SHH_LIMITS_PER_TX_LAMPORTS = '-5'
+    
+    expect(() => reloadConfig()).toThrow(/\(set by SHH_LIMITS_PER_TX_LAMPORTS\)/)
+  })
+})
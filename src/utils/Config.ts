@@ -1,6 +1,20 @@
 import { readFileSync } from 'fs'
 import { join } from 'path'
+import { PublicKey } from '@solana/web3.js'
 import { NodeConfig } from '../types'
+import { NODE_CONFIG_SCHEMA, listEnvOverrides, parseEnvValue, validateSchema } from './ConfigSchema'
+
+// Env vars that predate the SHH_* overrides and keep working; SHH_* wins when both are set
+const LEGACY_ENV_OVERRIDES: Record<string, string[]> = {
+  HEARTBEAT_INTERVAL_MS: ['node', 'timeout', 'heartbeatMs'],
+  MAX_PER_TX_LAMPORTS: ['limits', 'perTxLamports'],
+  MAX_PER_DAY_LAMPORTS: ['limits', 'perDayLamports'],
+  HEALTH_PORT: ['monitoring', 'healthCheckPort'],
+  METRICS_PORT: ['monitoring', 'metricsPort']
+}
+
+// Sections that can be swapped while running without affecting offers already in flight
+export const HOT_RELOADABLE_SECTIONS = ['limits', 'privacy', 'rotation', 'dispatcher'] as const
 
 let cachedConfig: NodeConfig | null = null
 
@@ -9,38 +23,150 @@ export function loadConfig(): NodeConfig {
     return cachedConfig
   }
 
+  cachedConfig = readConfig()
+  return cachedConfig
+}
+
+// Read config.json and env overrides again, e.g. on SIGHUP; throws without touching the loaded config
+export function reloadConfig(): NodeConfig {
+  return readConfig()
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readConfig(): NodeConfig {
+  let raw: unknown
   try {
     const configPath = join(process.cwd(), 'config.json')
-    const configFile = readFileSync(configPath, 'utf-8')
-    cachedConfig = JSON.parse(configFile) as NodeConfig
-    return cachedConfig
+    raw = JSON.parse(readFileSync(configPath, 'utf-8'))
   } catch (error) {
     throw new Error(`Failed to load config.json: ${error}`)
   }
+  if (!isRecord(raw)) {
+    throw new Error('Failed to load config.json: expected a JSON object')
+  }
+
+  const { errors, sources } = applyEnvOverrides(raw)
+  for (const error of validateConfig(raw)) {
+    // Point at the env var when that is where the bad value came from
+    const source = Object.entries(sources).find(([path]) => error.startsWith(`${path} `) || error.startsWith(`${path}.`) || error.startsWith(`${path}[`))
+    errors.push(source ? `${error} (set by ${source[1]})` : error)
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors.map(error => `  - ${error}`).join('\n')}`)
+  }
+
+  // validateConfig has checked every field against the schema
+  return raw as unknown as NodeConfig
 }
 
-export function validateConfig(config: NodeConfig): string[] {
+// Overwrite config fields from SHH_* (and legacy) env vars, returning errors for unparseable values
+// and which env var each overridden path came from
+function applyEnvOverrides(config: Record<string, unknown>): { errors: string[]; sources: Record<string, string> } {
   const errors: string[] = []
+  const sources: Record<string, string> = {}
+  const overrides = listEnvOverrides()
+
+  const legacy = Object.entries(LEGACY_ENV_OVERRIDES).map(([name, path]) => ({
+    name,
+    path,
+    schema: overrides.find(override => override.path.join('.') === path.join('.'))!.schema
+  }))
+
+  for (const { name, path, schema } of [...legacy, ...overrides]) {
+    const raw = process.env[name]
+    if (raw === undefined || raw === '') continue
 
-  if (!config.version) {
-    errors.push('Config version is required')
+    let value: unknown
+    try {
+      value = parseEnvValue(raw, schema)
+    } catch {
+      errors.push(`${name} must be valid JSON`)
+      continue
+    }
+
+    let target = config
+    for (const key of path.slice(0, -1)) {
+      const next = target[key]
+      if (isRecord(next)) {
+        target = next
+      } else {
+        const created: Record<string, unknown> = {}
+        target[key] = created
+        target = created
+      }
+    }
+    target[path[path.length - 1]!] = value
+    sources[path.join('.')] = name
+  }
+
+  return { errors, sources }
+}
+
+export function validateConfig(value: unknown): string[] {
+  const errors: string[] = []
+  validateSchema(value, NODE_CONFIG_SCHEMA, 'config', errors)
+
+  // Cross-field rules the schema can't express; skipped while the fields themselves are invalid
+  if (errors.length > 0) {
+    return errors.map(error => error.replace(/^config\./, ''))
+  }
+  const config = value as NodeConfig
+
+  if (config.limits.perDayLamports < config.limits.perTxLamports) {
+    errors.push('limits.perDayLamports must be >= limits.perTxLamports')
+  }
+
+  for (const [asset, tokenLimits] of Object.entries(config.limits.tokenUnits)) {
+    if (tokenLimits.perDay < tokenLimits.perTx) {
+      errors.push(`limits.tokenUnits.${asset}.perDay must be >= perTx`)
+    }
+  }
+
+  for (const [cluster, tokens] of Object.entries(config.tokens)) {
+    for (const [symbol, token] of Object.entries(tokens)) {
+      try {
+        new PublicKey(token.mint)
+      } catch {
+        errors.push(`tokens.${cluster}.${symbol}.mint must be a valid public key`)
+      }
+    }
   }
 
-  if (!config.node?.maxConcurrent || config.node.maxConcurrent < 1) {
-    errors.push('node.maxConcurrent must be >= 1')
+  if (config.node.retry.maxBackoffMs < config.node.retry.backoffMs) {
+    errors.push('node.retry.maxBackoffMs must be >= node.retry.backoffMs')
   }
 
-  if (!config.limits?.perTxLamports || config.limits.perTxLamports < 1000) {
-    errors.push('limits.perTxLamports must be >= 1000')
+  const [minJitter, maxJitter] = config.privacy.delayJitterSec
+  if (minJitter > maxJitter) {
+    errors.push('privacy.delayJitterSec must be [min, max] with min <= max')
   }
 
-  if (!config.rotation?.minBalanceSOL || config.rotation.minBalanceSOL < 0.001) {
-    errors.push('rotation.minBalanceSOL must be >= 0.001')
+  config.admin.authorizedKeys.forEach((key, index) => {
+    try {
+      new PublicKey(key)
+    } catch {
+      errors.push(`admin.authorizedKeys[${index}] must be a valid public key`)
+    }
+  })
+
+  if (config.admin.enabled && config.admin.authorizedKeys.length === 0) {
+    errors.push('admin.authorizedKeys must list at least one key when admin.enabled is true')
   }
 
-  if (!Array.isArray(config.privacy?.avoidPercents)) {
-    errors.push('privacy.avoidPercents must be an array')
+  config.dispatcher.signingKeys.forEach((key, index) => {
+    try {
+      new PublicKey(key)
+    } catch {
+      errors.push(`dispatcher.signingKeys[${index}] must be a valid public key`)
+    }
+  })
+
+  if (config.dispatcher.signingKeys.length === 0 && !config.dispatcher.insecureAllowUnsigned) {
+    errors.push('dispatcher.signingKeys must list at least one dispatcher key (or set dispatcher.insecureAllowUnsigned for local testing)')
   }
 
   return errors
-}
\ No newline at end of file
+}
@@ -0,0 +1,234 @@
+// Declarative description of config.json, used both to validate it and to derive env-var overrides
+
+export type FieldSchema =
+  | { kind: 'number'; min?: number; max?: number; integer?: boolean }
+  | { kind: 'boolean' }
+  | { kind: 'string'; oneOf?: readonly string[]; minLength?: number }
+  | { kind: 'array'; items: FieldSchema; length?: number }
+  | { kind: 'object'; fields: Record<string, FieldSchema> }
+  | { kind: 'record'; values: FieldSchema; keys?: readonly string[] }
+
+const number = (options: { min?: number; max?: number; integer?: boolean } = {}): FieldSchema => ({ kind: 'number', ...options })
+const integer = (min?: number, max?: number): FieldSchema => number({ integer: true, ...(min !== undefined && { min }), ...(max !== undefined && { max }) })
+const boolean = (): FieldSchema => ({ kind: 'boolean' })
+const string = (oneOf?: readonly string[]): FieldSchema => oneOf ? { kind: 'string', oneOf } : { kind: 'string', minLength: 1 }
+const array = (items: FieldSchema, length?: number): FieldSchema => length !== undefined ? { kind: 'array', items, length } : { kind: 'array', items }
+const object = (fields: Record<string, FieldSchema>): FieldSchema => ({ kind: 'object', fields })
+const record = (values: FieldSchema, keys?: readonly string[]): FieldSchema => keys ? { kind: 'record', values, keys } : { kind: 'record', values }
+
+export const SOLANA_CLUSTERS = ['mainnet-beta', 'devnet', 'testnet', 'localnet'] as const
+
+export const NODE_CONFIG_SCHEMA = object({
+  version: string(),
+  node: object({
+    maxConcurrent: integer(1),
+    reportDeclines: boolean(),
+    timeout: object({
+      heartbeatMs: integer(1000),
+      offerTimeoutMs: integer(1000),
+      txConfirmTimeoutMs: integer(1000)
+    }),
+    retry: object({
+      max: integer(1),
+      backoffMs: integer(0),
+      maxBackoffMs: integer(0)
+    })
+  }),
+  limits: object({
+    perTxLamports: integer(1000),
+    perDayLamports: integer(1000),
+    tokenUnits: record(object({ perTx: integer(1), perDay: integer(1) })),
+    maxPartsPerHour: integer(1)
+  }),
+  tokens: record(record(object({
+    mint: string(),
+    decimals: integer(0, 255),
+    program: string(['spl-token', 'token-2022'])
+  })), SOLANA_CLUSTERS),
+  fees: object({
+    priorityFeePercentile: number({ min: 0, max: 100 }),
+    minMicroLamports: integer(0),
+    maxPriorityFeeLamports: integer(1),
+    escalationMultiplier: number({ min: 1 })
+  }),
+  nonce: object({
+    enabled: boolean(),
+    autoCreate: boolean()
+  }),
+  profitability: object({
+    minMarginLamports: integer(),
+    minFeeLamportsWithAtaCreation: integer(0)
+  }),
+  rotation: object({
+    strategy: string(['round_robin', 'least_used', 'random']),
+    rebalanceThreshold: number({ min: 0 }),
+    minBalanceSOL: number({ min: 0.001 })
+  }),
+  privacy: object({
+    avoidPercents: array(number({ min: 0, max: 100 })),
+    delayJitterSec: array(number({ min: 0 }), 2),
+    minSiblingSpacingSec: number({ min: 0 }),
+    fingerprintAction: string(['decline', 'warn']),
+    rotateOnLowBalance: boolean(),
+    randomizeOrder: boolean()
+  }),
+  monitoring: object({
+    enableMetrics: boolean(),
+    metricsPort: integer(1, 65535),
+    healthCheckPort: integer(1, 65535),
+    logRotation: object({
+      enabled: boolean(),
+      maxSizeMB: number({ min: 0.001 }),
+      maxFiles: integer(1)
+    })
+  }),
+  security: object({
+    requireTLS: boolean(),
+    allowedOrigins: array(string()),
+    rateLimits: object({
+      requestsPerMinute: integer(1),
+      offersPerMinute: integer(1)
+    })
+  }),
+  admin: object({
+    enabled: boolean(),
+    host: string(),
+    port: integer(1, 65535),
+    authorizedKeys: array(string()),
+    maxClockSkewSec: integer(1)
+  }),
+  dispatcher: object({
+    signingKeys: array(string()),
+    insecureAllowUnsigned: boolean(),
+    maxClockSkewSec: integer(1)
+  })
+})
+
+export const SIGNING_POLICY_SCHEMA = object({
+  maxLamportsPerSignature: integer(0),
+  maxLamportsPerDay: integer(0),
+  tokens: record(object({ perSignature: integer(0), perDay: integer(0) })),
+  allowedPrograms: array(string())
+})
+
+function describe(schema: FieldSchema): string {
+  switch (schema.kind) {
+    case 'number': {
+      const bounds = [
+        ...(schema.min !== undefined ? [`>= ${schema.min}`] : []),
+        ...(schema.max !== undefined ? [`<= ${schema.max}`] : [])
+      ]
+      return `${schema.integer ? 'an integer' : 'a number'}${bounds.length > 0 ? ` ${bounds.join(' and ')}` : ''}`
+    }
+    case 'boolean':
+      return 'a boolean'
+    case 'string':
+      return schema.oneOf ? `one of ${schema.oneOf.map(value => `'${value}'`).join(', ')}` : 'a non-empty string'
+    case 'array':
+      return schema.length !== undefined ? `an array of ${schema.length} items` : 'an array'
+    default:
+      return 'an object'
+  }
+}
+
+// Check a value against its schema, adding one readable error per problem found
+export function validateSchema(value: unknown, schema: FieldSchema, path: string, errors: string[]): void {
+  if (value === undefined) {
+    errors.push(`${path} is required`)
+    return
+  }
+
+  const fail = () => errors.push(`${path} must be ${describe(schema)}`)
+
+  switch (schema.kind) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) ||
+          (schema.integer && !Number.isInteger(value)) ||
+          (schema.min !== undefined && value < schema.min) ||
+          (schema.max !== undefined && value > schema.max)) {
+        fail()
+      }
+      return
+
+    case 'boolean':
+      if (typeof value !== 'boolean') fail()
+      return
+
+    case 'string':
+      if (typeof value !== 'string' ||
+          (schema.oneOf && !schema.oneOf.includes(value)) ||
+          (schema.minLength !== undefined && value.length < schema.minLength)) {
+        fail()
+      }
+      return
+
+    case 'array':
+      if (!Array.isArray(value) || (schema.length !== undefined && value.length !== schema.length)) {
+        fail()
+        return
+      }
+      value.forEach((item, index) => validateSchema(item, schema.items, `${path}[${index}]`, errors))
+      return
+
+    case 'object':
+    case 'record': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail()
+        return
+      }
+
+      const entries = value as Record<string, unknown>
+      if (schema.kind === 'object') {
+        for (const [key, field] of Object.entries(schema.fields)) {
+          validateSchema(entries[key], field, `${path}.${key}`, errors)
+        }
+        for (const key of Object.keys(entries)) {
+          if (!(key in schema.fields)) errors.push(`${path}.${key} is not a known setting`)
+        }
+      } else {
+        for (const [key, item] of Object.entries(entries)) {
+          if (schema.keys && !schema.keys.includes(key)) {
+            errors.push(`${path}.${key} is not one of ${schema.keys.join(', ')}`)
+            continue
+          }
+          validateSchema(item, schema.values, `${path}.${key}`, errors)
+        }
+      }
+    }
+  }
+}
+
+// limits.perTxLamports -> SHH_LIMITS_PER_TX_LAMPORTS
+export function envVarName(path: string[]): string {
+  return 'SHH_' + path.map(segment => segment.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()).join('_')
+}
+
+export interface EnvOverride {
+  name: string
+  path: string[]
+  schema: FieldSchema
+}
+
+// Every overridable setting: scalar fields by name, arrays and free-form maps as one JSON value
+export function listEnvOverrides(schema: FieldSchema = NODE_CONFIG_SCHEMA, path: string[] = []): EnvOverride[] {
+  if (schema.kind === 'object') {
+    return Object.entries(schema.fields).flatMap(([key, field]) => listEnvOverrides(field, [...path, key]))
+  }
+  return [{ name: envVarName(path), path, schema }]
+}
+
+// Parse an env-var string into the type its schema expects; validation of the result happens later
+export function parseEnvValue(raw: string, schema: FieldSchema): unknown {
+  switch (schema.kind) {
+    case 'number':
+      return raw.trim() === '' ? NaN : Number(raw)
+    case 'boolean':
+      if (raw === 'true') return true
+      if (raw === 'false') return false
+      return raw
+    case 'string':
+      return raw
+    default:
+      return JSON.parse(raw)
+  }
+}
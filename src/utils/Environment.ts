@@ -1,15 +1,14 @@
+import { PublicKey } from '@solana/web3.js'
 import { ValidationResult } from '../types'
 
 export function validateEnvironment(): ValidationResult {
   const errors: string[] = []
   const warnings: string[] = []
 
-  // Required environment variables
-  const required = [
-    'RPC_URL',
-    'NODE_SIGNER_SECRET',
-    'RELAY_SIGNERS'
-  ]
+  // Required environment variables; signers can come from an encrypted keystore or the signing daemon instead
+  const required = process.env.KEYSTORE_PATH || process.env.SIGNER_SOCKET
+    ? ['RPC_URL']
+    : ['RPC_URL', 'NODE_SIGNER_SECRET', 'RELAY_SIGNERS']
 
   for (const envVar of required) {
     if (!process.env[envVar]) {
@@ -38,6 +37,26 @@ export function validateEnvironment(): ValidationResult {
     }
   }
 
+  if (process.env.SIGNER_SOCKET && (process.env.KEYSTORE_PATH || process.env.NODE_SIGNER_SECRET || process.env.RELAY_SIGNERS || process.env.FEE_PAYER_SECRET)) {
+    warnings.push('SIGNER_SOCKET is set, keys belong to the signing daemon and local key settings are ignored')
+  }
+
+  if (process.env.KEYSTORE_PATH && !process.env.SIGNER_SOCKET && (process.env.NODE_SIGNER_SECRET || process.env.RELAY_SIGNERS)) {
+    warnings.push('KEYSTORE_PATH is set, ignoring plaintext NODE_SIGNER_SECRET and RELAY_SIGNERS')
+  }
+
+  if (process.env.KEYSTORE_PATH && process.env.KEYSTORE_PASSPHRASE && !process.env.KEYSTORE_PASSPHRASE_FILE) {
+    warnings.push('KEYSTORE_PASSPHRASE keeps the passphrase in the environment, prefer KEYSTORE_PASSPHRASE_FILE')
+  }
+
+  if (process.env.PAYOUT_ADDRESS) {
+    try {
+      new PublicKey(process.env.PAYOUT_ADDRESS)
+    } catch {
+      errors.push('PAYOUT_ADDRESS must be a valid public key')
+    }
+  }
+
   // Validate relay signers format
   if (process.env.RELAY_SIGNERS) {
     try {
@@ -51,10 +70,30 @@ export function validateEnvironment(): ValidationResult {
   }
 
   // Check fee payer mode
-  if (process.env.FEE_PAYER_MODE === 'self' && !process.env.FEE_PAYER_SECRET) {
+  const feePayerMode = process.env.FEE_PAYER_MODE
+  if (feePayerMode && !['relay', 'self', 'sponsored'].includes(feePayerMode)) {
+    errors.push("FEE_PAYER_MODE must be 'relay', 'self' or 'sponsored'")
+  }
+
+  if (process.env.FEE_PAYER_MODE === 'self' && !process.env.FEE_PAYER_SECRET && !process.env.SIGNER_SOCKET) {
     errors.push('FEE_PAYER_SECRET required when FEE_PAYER_MODE=self')
   }
 
+  // Check forced cluster
+  const cluster = process.env.SOLANA_CLUSTER
+  if (cluster && !['mainnet-beta', 'devnet', 'testnet', 'localnet'].includes(cluster)) {
+    errors.push("SOLANA_CLUSTER must be 'mainnet-beta', 'devnet', 'testnet' or 'localnet'")
+  }
+
+  // Check logging settings
+  if (process.env.LOG_LEVEL && !['debug', 'info', 'warn', 'error'].includes(process.env.LOG_LEVEL)) {
+    errors.push("LOG_LEVEL must be 'debug', 'info', 'warn' or 'error'")
+  }
+
+  if (process.env.LOG_FORMAT && !['text', 'json'].includes(process.env.LOG_FORMAT)) {
+    errors.push("LOG_FORMAT must be 'text' or 'json'")
+  }
+
   return {
     valid: errors.length === 0,
     errors,
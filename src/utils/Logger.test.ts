@@ -0,0 +1,47 @@
+import { Keypair } from '@solana/web3.js'
+import { Logger, truncateAddress } from './Logger'
+
+const ROTATION = { enabled: false, maxSizeMB: 1, maxFiles: 1 }
+
+describe('Logger', () => {
+  const env = process.env
+  let lines: string[]
+  
+  function configure(format: 'text' | 'json'): void {
+    process.env = { ...env, LOG_LEVEL: 'info', LOG_FORMAT: format }
+    delete process.env.LOG_FILE
+    Logger.configure(ROTATION)
+  }
+  
+  beforeEach(() => {
+    lines = []
+    jest.spyOn(console, 'log').mockImplementation((line: string) => {
+      lines.push(line)
+    })
+  })
+  
+  afterEach(() => {
+    jest.restoreAllMocks()
+    process.env = env
+    Logger.configure(ROTATION)
+  })
+  
+  it('logs public keys truncated and keypairs redacted', () => {
+    configure('json')
+    const keypair = Keypair.generate()
+    
+    new Logger('Test').info('wallets', keypair.publicKey, keypair)
+    
+    expect(JSON.parse(lines[0]!).args).toEqual([truncateAddress(keypair.publicKey.toBase58()), '[REDACTED]'])
+  })
+  
+  it('keeps emoji markers in text lines and drops them from JSON messages', () => {
+    configure('text')
+    new Logger('Test').info('✅ Accepted offer')
+    configure('json')
+    new Logger('Test').info('✅ Accepted offer')
+    
+    expect(lines[0]).toMatch(/INFO \[Test\] ✅ Accepted offer$/)
+    expect(JSON.parse(lines[1]!).msg).toBe('Accepted offer')
+  })
+})
@@ -1,34 +1,264 @@
-export class Logger {
-  private prefix: string
+import fs from 'fs'
+import path from 'path'
+import { AsyncLocalStorage } from 'async_hooks'
 
-  constructor(component: string) {
-    this.prefix = `[${component}]`
-  }
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+export type LogFormat = 'text' | 'json'
+
+// Fields attached to every line logged while handling one offer
+export interface LogContext {
+  offerId?: string
+  requestId?: string
+  walletIndex?: number
+}
+
+export interface LogRotation {
+  enabled: boolean
+  maxSizeMB: number
+  maxFiles: number
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const REDACTED = '[REDACTED]'
+
+// Object keys whose values are never logged
+const SECRET_KEY_PATTERN = /secret|private|passphrase|password|mnemonic|authorization/i
+
+// A 64-byte ed25519 secret key as base64 or as a keypair-file byte array
+const BASE64_SECRET_PATTERN = /[A-Za-z0-9+/]{86}==/g
+const BYTE_ARRAY_SECRET_PATTERN = /\[(?:\s*\d{1,3}\s*,){63}\s*\d{1,3}\s*\]/g
+
+// Base58 public keys; signatures (87-88 chars) are longer and stay intact
+const ADDRESS_PATTERN = /(?<![1-9A-HJ-NP-Za-km-z])[1-9A-HJ-NP-Za-km-z]{32,44}(?![1-9A-HJ-NP-Za-km-z])/g
+
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\u{FE0F}\u{200D}]/gu
+
+const MAX_DEPTH = 6
+
+const contextStorage = new AsyncLocalStorage<LogContext>()
 
-  private formatMessage(level: string, message: string, ...args: any[]): string {
-    const timestamp = new Date().toISOString()
-    const formatted = args.length > 0 ? `${message} ${args.map(arg => 
-      typeof arg === 'object' ? JSON.stringify(arg) : String(arg)
-    ).join(' ')}` : message
+// Appends to a log file, rolling it over to file.1 ... file.(maxFiles - 1) once it reaches maxSizeMB
+class RotatingFile {
+  private filePath: string
+  private rotation: LogRotation
+  private fd: number
+  private size: number
+  
+  constructor(filePath: string, rotation: LogRotation) {
+    this.filePath = filePath
+    this.rotation = rotation
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    this.fd = fs.openSync(filePath, 'a')
+    this.size = fs.fstatSync(this.fd).size
+  }
+  
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line) + 1
+    if (this.rotation.enabled && this.size > 0 && this.size + bytes > this.rotation.maxSizeMB * 1024 * 1024) {
+      this.rotate()
+    }
+    fs.writeSync(this.fd, line + '\n')
+    this.size += bytes
+  }
+  
+  close(): void {
+    fs.closeSync(this.fd)
+  }
+  
+  private rotate(): void {
+    fs.closeSync(this.fd)
+    
+    const keep = Math.max(1, this.rotation.maxFiles)
+    fs.rmSync(`${this.filePath}.${keep - 1}`, { force: true })
+    for (let index = keep - 2; index >= 1; index--) {
+      if (fs.existsSync(`${this.filePath}.${index}`)) {
+        fs.renameSync(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`)
+      }
+    }
+    if (keep > 1) {
+      fs.renameSync(this.filePath, `${this.filePath}.1`)
+    } else {
+      fs.rmSync(this.filePath, { force: true })
+    }
     
-    return `${timestamp} ${level} ${this.prefix} ${formatted}`
+    this.fd = fs.openSync(this.filePath, 'a')
+    this.size = 0
   }
+}
 
-  info(message: string, ...args: any[]): void {
-    console.log(this.formatMessage('INFO', message, ...args))
+// Process-wide output settings; every Logger instance shares them
+const settings = {
+  format: 'text' as LogFormat,
+  file: null as RotatingFile | null,
+  secrets: null as string[] | null
+}
+
+// The raw key material the node was started with, masked wherever it shows up
+function knownSecrets(): string[] {
+  if (settings.secrets) return settings.secrets
+  
+  const secrets = [process.env.NODE_SIGNER_SECRET, process.env.FEE_PAYER_SECRET]
+  try {
+    const relaySigners = JSON.parse(process.env.RELAY_SIGNERS || '[]')
+    if (Array.isArray(relaySigners)) secrets.push(...relaySigners.map(String))
+  } catch {
+    // Reported by environment validation
   }
+  
+  settings.secrets = secrets.filter((secret): secret is string => !!secret && secret.length >= 16)
+  return settings.secrets
+}
 
-  warn(message: string, ...args: any[]): void {
-    console.warn(this.formatMessage('WARN', message, ...args))
+export function truncateAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address
+}
+
+function redactString(value: string): string {
+  let redacted = value
+  for (const secret of knownSecrets()) {
+    redacted = redacted.split(secret).join(REDACTED)
   }
+  return redacted
+    .replace(BASE64_SECRET_PATTERN, REDACTED)
+    .replace(BYTE_ARRAY_SECRET_PATTERN, REDACTED)
+    .replace(ADDRESS_PATTERN, truncateAddress)
+}
 
-  error(message: string, ...args: any[]): void {
-    console.error(this.formatMessage('ERROR', message, ...args))
+function hasBase58(value: object): value is { toBase58(): string } {
+  return 'toBase58' in value && typeof value.toBase58 === 'function'
+}
+
+// A JSON-safe copy of a log argument with secrets masked and addresses truncated
+function redactValue(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') return redactString(value)
+  if (typeof value === 'bigint') return value.toString()
+  if (value === null || typeof value !== 'object') return value
+  
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) }
   }
+  if (value instanceof Uint8Array) {
+    return value.length === 64 ? REDACTED : `<${value.length} bytes>`
+  }
+  // PublicKey and Keypair, without importing web3.js here
+  if (hasBase58(value)) {
+    return truncateAddress(value.toBase58())
+  }
+  if ('secretKey' in value || '_keypair' in value) {
+    return REDACTED
+  }
+  
+  if (seen.has(value) || depth >= MAX_DEPTH) return '[…]'
+  seen.add(value)
+  
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1, seen))
+  }
+  
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SECRET_KEY_PATTERN.test(key) ? REDACTED : redactValue(item, depth + 1, seen)
+  ]))
+}
 
+function formatArg(arg: unknown): string {
+  const redacted = redactValue(arg)
+  return typeof redacted === 'object' && redacted !== null ? JSON.stringify(redacted) : String(redacted)
+}
+
+export class Logger {
+  private component: string
+  
+  constructor(component: string) {
+    this.component = component
+  }
+  
+  // Apply output settings from the environment (LOG_FORMAT, LOG_FILE) and node config
+  static configure(rotation: LogRotation): void {
+    settings.format = process.env.LOG_FORMAT === 'json' ? 'json' : 'text'
+    settings.secrets = null
+    
+    settings.file?.close()
+    settings.file = process.env.LOG_FILE ? new RotatingFile(process.env.LOG_FILE, rotation) : null
+  }
+  
+  // Run fn with context fields attached to everything it logs, including across awaits
+  static runWithContext<T>(context: LogContext, fn: () => T): T {
+    return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn)
+  }
+  
+  // Add fields to the context of the surrounding runWithContext call, if any
+  static addContext(context: LogContext): void {
+    const store = contextStorage.getStore()
+    if (store) Object.assign(store, context)
+  }
+  
+  info(message: string, ...args: any[]): void {
+    this.write('info', message, args)
+  }
+  
+  warn(message: string, ...args: any[]): void {
+    this.write('warn', message, args)
+  }
+  
+  error(message: string, ...args: any[]): void {
+    this.write('error', message, args)
+  }
+  
   debug(message: string, ...args: any[]): void {
-    if (process.env.LOG_LEVEL === 'debug') {
-      console.log(this.formatMessage('DEBUG', message, ...args))
+    this.write('debug', message, args)
+  }
+  
+  private write(level: LogLevel, message: string, args: unknown[]): void {
+    const threshold = process.env.LOG_LEVEL as LogLevel | undefined
+    if (LEVELS[level] < LEVELS[threshold && threshold in LEVELS ? threshold : 'info']) return
+    
+    const line = settings.format === 'json'
+      ? this.formatJson(level, message, args)
+      : this.formatText(level, message, args)
+    
+    if (level === 'error') {
+      console.error(line)
+    } else if (level === 'warn') {
+      console.warn(line)
+    } else {
+      console.log(line)
+    }
+    
+    try {
+      settings.file?.write(line)
+    } catch (error) {
+      settings.file = null
+      console.error(`Log file disabled after write failure: ${error}`)
     }
   }
-}
\ No newline at end of file
+  
+  private formatText(level: LogLevel, message: string, args: unknown[]): string {
+    const context = contextStorage.getStore()
+    const fields = context
+      ? Object.entries(context).map(([key, value]) => `${key}=${value}`).join(' ')
+      : ''
+    const formatted = args.length > 0 ? `${message} ${args.map(formatArg).join(' ')}` : message
+    
+    return [
+      new Date().toISOString(),
+      level.toUpperCase(),
+      `[${this.component}]`,
+      ...(fields ? [fields] : []),
+      redactString(formatted)
+    ].join(' ')
+  }
+  
+  private formatJson(level: LogLevel, message: string, args: unknown[]): string {
+    return JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      ...contextStorage.getStore(),
+      // Emoji markers are for people scanning a console; log pipelines match on the plain text
+      msg: redactString(message).replace(EMOJI_PATTERN, '').trim(),
+      ...(args.length > 0 && { args: args.map(arg => redactValue(arg)) })
+    })
+  }
+}
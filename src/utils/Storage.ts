@@ -0,0 +1,82 @@
+import { appendFileSync, closeSync, existsSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+
+export function getDataDir(): string {
+  return process.env.DATA_DIR || join(process.cwd(), 'data')
+}
+
+export function getDataPath(fileName: string): string {
+  return join(getDataDir(), fileName)
+}
+
+export function ensureDir(path: string): void {
+  if (!existsSync(path)) {
+    mkdirSync(path, { recursive: true })
+  }
+}
+
+export function readJsonFile<T>(path: string, fallback: T): T {
+  if (!existsSync(path)) {
+    return fallback
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as T
+  } catch (error) {
+    throw new Error(`Failed to read ${path}: ${error}`)
+  }
+}
+
+// Write to a temp file, fsync, then rename so a crash never leaves a torn file
+export function writeJsonFileAtomic(path: string, data: unknown, mode?: number): void {
+  ensureDir(dirname(path))
+
+  const tempPath = `${path}.tmp`
+  writeFileSync(tempPath, JSON.stringify(data, null, 2), mode !== undefined ? { mode } : {})
+  syncFile(tempPath)
+  renameSync(tempPath, path)
+}
+
+export function appendJsonLine(path: string, data: unknown): void {
+  ensureDir(dirname(path))
+
+  appendFileSync(path, JSON.stringify(data) + '\n')
+  syncFile(path)
+}
+
+export function writeJsonLinesAtomic(path: string, records: unknown[]): void {
+  ensureDir(dirname(path))
+
+  const tempPath = `${path}.tmp`
+  writeFileSync(tempPath, records.map(record => JSON.stringify(record) + '\n').join(''))
+  syncFile(tempPath)
+  renameSync(tempPath, path)
+}
+
+export function readJsonLines<T>(path: string): T[] {
+  if (!existsSync(path)) {
+    return []
+  }
+
+  const records: T[] = []
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim()) continue
+
+    try {
+      records.push(JSON.parse(line) as T)
+    } catch {
+      // A torn final line from a crash mid-append is expected; skip it
+    }
+  }
+
+  return records
+}
+
+function syncFile(path: string): void {
+  const fd = openSync(path, 'r+')
+  try {
+    fsyncSync(fd)
+  } finally {
+    closeSync(fd)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { existsSync, readFileSync } from 'fs'
+import { randomBytes, scryptSync } from 'crypto'
+import { createInterface } from 'readline'
+import { Keypair } from '@solana/web3.js'
+import { secretbox } from 'tweetnacl'
+import { writeJsonFileAtomic } from '../utils/Storage'
+
+const KEYSTORE_VERSION = 1
+
+// ~32 MiB and a few hundred ms per unlock; stored per file so they can be raised later
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 }
+const SCRYPT_MAX_MEMORY = 64 * 1024 * 1024
+
+interface KeystoreFile {
+  version: number
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number }
+  nonce: string
+  ciphertext: string
+}
+
+// What secretbox seals: base64 secret keys, never written anywhere in the clear
+interface KeystoreContents {
+  nodeSigner: string
+  relays: Array<{ label: string; secretKey: string }>
+}
+
+export interface RelaySigner {
+  label: string
+  keypair: Keypair
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Uint8Array {
+  return scryptSync(passphrase.normalize('NFKC'), salt, secretbox.keyLength, { ...params, maxmem: SCRYPT_MAX_MEMORY })
+}
+
+// Passphrase-encrypted file holding the node signer and labelled relay signers
+export class Keystore {
+  readonly path: string
+  readonly nodeSigner: Keypair
+  private relays: RelaySigner[]
+  private passphrase: string
+  
+  private constructor(path: string, passphrase: string, nodeSigner: Keypair, relays: RelaySigner[]) {
+    this.path = path
+    this.passphrase = passphrase
+    this.nodeSigner = nodeSigner
+    this.relays = relays
+  }
+  
+  static exists(path: string): boolean {
+    return existsSync(path)
+  }
+  
+  static create(path: string, passphrase: string, nodeSigner: Keypair): Keystore {
+    if (existsSync(path)) {
+      throw new Error(`Keystore ${path} already exists`)
+    }
+    if (passphrase.length < 8) {
+      throw new Error('Keystore passphrase must be at least 8 characters')
+    }
+    
+    const keystore = new Keystore(path, passphrase, nodeSigner, [])
+    keystore.save()
+    return keystore
+  }
+  
+  static unlock(path: string, passphrase: string): Keystore {
+    let file: KeystoreFile
+    try {
+      file = JSON.parse(readFileSync(path, 'utf-8')) as KeystoreFile
+    } catch (error) {
+      throw new Error(`Failed to read keystore ${path}: ${error}`)
+    }
+    
+    if (file.version !== KEYSTORE_VERSION || file.kdf?.name !== 'scrypt') {
+      throw new Error(`Unsupported keystore format in ${path}`)
+    }
+    
+    const key = deriveKey(passphrase, Buffer.from(file.kdf.salt, 'base64'), file.kdf)
+    const plaintext = secretbox.open(
+      Buffer.from(file.ciphertext, 'base64'),
+      Buffer.from(file.nonce, 'base64'),
+      key
+    )
+    if (!plaintext) {
+      throw new Error(`Wrong passphrase or corrupted keystore ${path}`)
+    }
+    
+    const contents = JSON.parse(Buffer.from(plaintext).toString('utf-8')) as KeystoreContents
+    return new Keystore(
+      path,
+      passphrase,
+      Keypair.fromSecretKey(Buffer.from(contents.nodeSigner, 'base64')),
+      contents.relays.map(relay => ({ label: relay.label, keypair: Keypair.fromSecretKey(Buffer.from(relay.secretKey, 'base64')) }))
+    )
+  }
+  
+  getRelaySigners(): RelaySigner[] {
+    return [...this.relays]
+  }
+  
+  // Labels and public keys only, safe to print
+  listRelays(): Array<{ label: string; publicKey: string }> {
+    return this.relays.map(({ label, keypair }) => ({ label, publicKey: keypair.publicKey.toString() }))
+  }
+  
+  addRelay(label: string, keypair: Keypair): void {
+    if (!/^[\w.-]{1,64}$/.test(label)) {
+      throw new Error('Relay label must be 1-64 letters, digits, dots, dashes or underscores')
+    }
+    if (this.relays.some(relay => relay.label === label)) {
+      throw new Error(`A relay signer labelled ${label} already exists`)
+    }
+    if (this.relays.some(relay => relay.keypair.publicKey.equals(keypair.publicKey)) || this.nodeSigner.publicKey.equals(keypair.publicKey)) {
+      throw new Error(`Key ${keypair.publicKey.toString()} is already in the keystore`)
+    }
+    
+    this.relays.push({ label, keypair })
+    this.save()
+  }
+  
+  // Look up by label or public key
+  findRelay(labelOrPublicKey: string): RelaySigner {
+    const relay = this.relays.find(relay =>
+      relay.label === labelOrPublicKey || relay.keypair.publicKey.toString() === labelOrPublicKey
+    )
+    if (!relay) {
+      throw new Error(`No relay signer ${labelOrPublicKey} in the keystore`)
+    }
+    return relay
+  }
+  
+  // Remove by label or public key; the caller makes sure the key is swept or backed up first
+  removeRelay(labelOrPublicKey: string): RelaySigner {
+    const removed = this.findRelay(labelOrPublicKey)
+    this.relays = this.relays.filter(relay => relay !== removed)
+    this.save()
+    return removed
+  }
+  
+  // Re-encrypt with a fresh salt and nonce on every write
+  private save(): void {
+    const contents: KeystoreContents = {
+      nodeSigner: Buffer.from(this.nodeSigner.secretKey).toString('base64'),
+      relays: this.relays.map(({ label, keypair }) => ({ label, secretKey: Buffer.from(keypair.secretKey).toString('base64') }))
+    }
+    
+    const salt = randomBytes(16)
+    const nonce = randomBytes(secretbox.nonceLength)
+    const key = deriveKey(this.passphrase, salt, SCRYPT_PARAMS)
+    const ciphertext = secretbox(Buffer.from(JSON.stringify(contents), 'utf-8'), nonce, key)
+    
+    const file: KeystoreFile = {
+      version: KEYSTORE_VERSION,
+      kdf: { name: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS },
+      nonce: nonce.toString('base64'),
+      ciphertext: Buffer.from(ciphertext).toString('base64')
+    }
+    writeJsonFileAtomic(this.path, file, 0o600)
+  }
+}
+
+// Passphrase from KEYSTORE_PASSPHRASE_FILE, KEYSTORE_PASSPHRASE, or an interactive prompt, in that order
+export async function resolveKeystorePassphrase(prompt = 'Keystore passphrase: '): Promise<string> {
+  const passphraseFile = process.env.KEYSTORE_PASSPHRASE_FILE
+  if (passphraseFile) {
+    try {
+      return readFileSync(passphraseFile, 'utf-8').replace(/\r?\n$/, '')
+    } catch (error) {
+      throw new Error(`Failed to read KEYSTORE_PASSPHRASE_FILE: ${error}`)
+    }
+  }
+  
+  if (process.env.KEYSTORE_PASSPHRASE) {
+    return process.env.KEYSTORE_PASSPHRASE
+  }
+  
+  if (!process.stdin.isTTY) {
+    throw new Error('Keystore is locked: set KEYSTORE_PASSPHRASE_FILE or KEYSTORE_PASSPHRASE, or run interactively')
+  }
+  
+  return promptHidden(prompt)
+}
+
+function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: true })
+    process.stdout.write(question)
+    
+    // Swallow the echo of typed characters
+    const output = rl as unknown as { _writeToOutput: (text: string) => void }
+    output._writeToOutput = () => {}
+    
+    rl.question('', (answer) => {
+      rl.close()
+      process.stdout.write('\n')
+      resolve(answer)
+    })
+  })
+}
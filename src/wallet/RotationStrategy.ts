@@ -0,0 +1,50 @@
+import { PublicKey } from '@solana/web3.js'
+import { NodeConfig } from '../types'
+
+export interface RelayCandidate {
+  index: number
+  publicKey: PublicKey
+  usageCount: number
+}
+
+export interface RotationStrategy {
+  select(candidates: RelayCandidate[]): RelayCandidate
+}
+
+export class RoundRobinStrategy implements RotationStrategy {
+  private lastIndex = -1
+  
+  select(candidates: RelayCandidate[]): RelayCandidate {
+    // Next wallet after the last one used, skipping any that were filtered out
+    const next = candidates.find(c => c.index > this.lastIndex) ?? candidates[0]!
+    this.lastIndex = next.index
+    return next
+  }
+}
+
+export class LeastUsedStrategy implements RotationStrategy {
+  select(candidates: RelayCandidate[]): RelayCandidate {
+    return candidates.reduce((least, candidate) =>
+      candidate.usageCount < least.usageCount ? candidate : least
+    )
+  }
+}
+
+export class RandomStrategy implements RotationStrategy {
+  select(candidates: RelayCandidate[]): RelayCandidate {
+    return candidates[Math.floor(Math.random() * candidates.length)]!
+  }
+}
+
+export function createRotationStrategy(strategy: NodeConfig['rotation']['strategy']): RotationStrategy {
+  switch (strategy) {
+    case 'round_robin':
+      return new RoundRobinStrategy()
+    case 'least_used':
+      return new LeastUsedStrategy()
+    case 'random':
+      return new RandomStrategy()
+    default:
+      throw new Error(`Unknown rotation strategy: ${strategy}`)
+  }
+}
\ No newline at end of file
@@ -1,81 +1,270 @@
-import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js'
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  NONCE_ACCOUNT_LENGTH,
+  LAMPORTS_PER_SOL
+} from '@solana/web3.js'
 import { getAccount, getAssociatedTokenAddress } from '@solana/spl-token'
-import { WalletBalance } from '../types'
+import { FeePayerMode, NodeConfig, Offer, WalletBalance } from '../types'
 import { Logger } from '../utils/Logger'
+import { RelayCandidate, RotationStrategy, createRotationStrategy } from './RotationStrategy'
+import { TokenInfo, TokenRegistry } from '../tokens/TokenRegistry'
+import { Signer } from '../signing/Signer'
+import { getDataPath, readJsonFile, writeJsonFileAtomic } from '../utils/Storage'
+
+// Lamports kept back for the network fee, and for recipient ATA rent on token transfers
+const FEE_RESERVE_LAMPORTS = 10_000
+const ATA_RENT_RESERVE_LAMPORTS = 2_100_000
+
+// Nonce accounts are derived from each relay wallet with this seed, so no extra keys need storing
+const NONCE_SEED = 'shh-nonce'
 
 export class WalletManager {
   private logger = new Logger('WalletManager')
-  public nodeKeypair: Keypair
-  public relayKeypairs: Keypair[] = []
+  public nodePublicKey: PublicKey
+  public relayWallets: PublicKey[]
+  public feePayerMode: FeePayerMode
+  public feePayerPublicKey: PublicKey | null = null
   
-  private currentRelayIndex = 0
+  private config: NodeConfig
+  private tokenRegistry: TokenRegistry
+  private signer: Signer
+  private strategy: RotationStrategy
+  private usageCounts: number[] = []
+  private nonceAccounts = new Map<string, PublicKey>()
+  private noncesInUse = new Set<string>()
+  private deactivated = new Set<string>()
+  private deactivatedPath = getDataPath('deactivated-wallets.json')
   
-  constructor() {
-    // Load node signer keypair
-    const nodeSignerSecret = process.env.NODE_SIGNER_SECRET
-    if (!nodeSignerSecret) {
-      throw new Error('NODE_SIGNER_SECRET environment variable is required')
+  // Only public keys live here; everything that needs a signature goes through the signer
+  constructor(config: NodeConfig, tokenRegistry: TokenRegistry, signer: Signer) {
+    this.config = config
+    this.tokenRegistry = tokenRegistry
+    this.signer = signer
+    this.strategy = createRotationStrategy(config.rotation.strategy)
+    
+    this.nodePublicKey = signer.nodePublicKey
+    this.relayWallets = signer.relayPublicKeys
+    this.usageCounts = this.relayWallets.map(() => 0)
+    
+    // Dedicated fee payer when paying our own fees
+    this.feePayerMode = (process.env.FEE_PAYER_MODE as FeePayerMode) || 'relay'
+    if (this.feePayerMode === 'self') {
+      this.feePayerPublicKey = signer.feePayerPublicKey
     }
+  }
+  
+  // Restore wallets an operator took out of rotation before the last restart
+  load(): void {
+    const stored = readJsonFile<string[]>(this.deactivatedPath, [])
+    this.deactivated = new Set(stored.filter(publicKey => this.relayWallets.some(wallet => wallet.toString() === publicKey)))
     
-    try {
-      const secretKey = Buffer.from(nodeSignerSecret, 'base64')
-      this.nodeKeypair = Keypair.fromSecretKey(secretKey)
-      this.logger.info(`🔑 Node signer loaded: ${this.nodeKeypair.publicKey.toString()}`)
-    } catch (error) {
-      throw new Error(`Failed to load node signer: ${error}`)
+    if (this.deactivated.size > 0) {
+      this.logger.warn(`⚠️  ${this.deactivated.size} relay wallet(s) deactivated by an operator: ${Array.from(this.deactivated).join(', ')}`)
     }
+  }
+  
+  // Take a relay wallet out of rotation until reactivated; offers already running on it finish
+  deactivateWallet(publicKey: string): void {
+    this.requireRelayWallet(publicKey)
+    this.deactivated.add(publicKey)
+    writeJsonFileAtomic(this.deactivatedPath, Array.from(this.deactivated))
+    this.logger.warn(`⛔ Relay wallet ${publicKey} deactivated`)
+  }
+  
+  activateWallet(publicKey: string): void {
+    this.requireRelayWallet(publicKey)
+    this.deactivated.delete(publicKey)
+    writeJsonFileAtomic(this.deactivatedPath, Array.from(this.deactivated))
+    this.logger.info(`✅ Relay wallet ${publicKey} reactivated`)
+  }
+  
+  private requireRelayWallet(publicKey: string): void {
+    if (!this.relayWallets.some(wallet => wallet.toString() === publicKey)) {
+      throw new Error(`${publicKey} is not one of this node's relay wallets`)
+    }
+  }
+  
+  async selectRelayWallet(connection: Connection, offer: Offer, exclude: string[] = []): Promise<PublicKey> {
+    if (this.relayWallets.length === 0) {
+      throw new Error('No relay wallets available')
+    }
+    
+    let candidates: RelayCandidate[] = this.relayWallets
+      .map((publicKey, index) => ({
+        index,
+        publicKey,
+        usageCount: this.usageCounts[index] ?? 0
+      }))
+      .filter(candidate => !exclude.includes(candidate.publicKey.toString()) && !this.deactivated.has(candidate.publicKey.toString()))
+    
+    if (candidates.length === 0) {
+      throw new Error('No active relay wallet left that has not already served this request')
+    }
+    
+    if (this.config.privacy.rotateOnLowBalance) {
+      candidates = await this.filterFundedCandidates(connection, candidates, offer)
+      if (candidates.length === 0) {
+        throw new Error(`No relay wallet can cover ${offer.asset} ${offer.amount}`)
+      }
+    }
+    
+    const selected = this.strategy.select(candidates)
+    this.usageCounts[selected.index] = (this.usageCounts[selected.index] ?? 0) + 1
     
-    // Load relay signers
-    this.loadRelaySigners()
+    this.logger.debug(`Selected relay wallet ${selected.index + 1} (${this.config.rotation.strategy}, used ${selected.usageCount + 1}x)`)
+    return selected.publicKey
   }
   
-  private loadRelaySigners(): void {
-    const relaySignersEnv = process.env.RELAY_SIGNERS
-    if (!relaySignersEnv) {
-      throw new Error('RELAY_SIGNERS environment variable is required')
+  // A wallet that could execute the offer right now, without advancing rotation or usage counts
+  async findFundedWallet(connection: Connection, offer: Offer, exclude: string[] = []): Promise<PublicKey | null> {
+    const candidates = this.relayWallets
+      .map((publicKey, index) => ({ index, publicKey, usageCount: this.usageCounts[index] ?? 0 }))
+      .filter(candidate => !exclude.includes(candidate.publicKey.toString()) && !this.deactivated.has(candidate.publicKey.toString()))
+    
+    const funded = await this.filterFundedCandidates(connection, candidates, offer)
+    return funded[0]?.publicKey ?? null
+  }
+  
+  private async filterFundedCandidates(
+    connection: Connection,
+    candidates: RelayCandidate[],
+    offer: Offer
+  ): Promise<RelayCandidate[]> {
+    const minBalanceLamports = this.config.rotation.minBalanceSOL * LAMPORTS_PER_SOL
+    const amount = parseInt(offer.amount)
+    const funded: RelayCandidate[] = []
+    
+    for (const candidate of candidates) {
+      try {
+        const lamports = await connection.getBalance(candidate.publicKey)
+        if (lamports < minBalanceLamports) {
+          this.logger.debug(`Skipping relay wallet ${candidate.index + 1}: below minimum balance`)
+          continue
+        }
+        
+        if (this.tokenRegistry.isNative(offer.asset)) {
+          if (lamports < amount + FEE_RESERVE_LAMPORTS) continue
+        } else {
+          if (lamports < FEE_RESERVE_LAMPORTS + ATA_RENT_RESERVE_LAMPORTS) continue
+          
+          const token = this.tokenRegistry.get(offer.asset)
+          const tokenUnits = await this.getTokenBalanceUnits(connection, candidate.publicKey, token)
+          if (tokenUnits < amount) continue
+        }
+        
+        funded.push(candidate)
+      } catch (error) {
+        this.logger.warn(`Failed to check balance for relay wallet ${candidate.index + 1}: ${error}`)
+      }
     }
     
+    return funded
+  }
+  
+  private async getTokenBalanceUnits(connection: Connection, owner: PublicKey, token: TokenInfo): Promise<number> {
     try {
-      const relaySecrets = JSON.parse(relaySignersEnv) as string[]
-      
-      for (const [index, secret] of relaySecrets.entries()) {
-        const secretKey = Buffer.from(secret, 'base64')
-        const keypair = Keypair.fromSecretKey(secretKey)
-        this.relayKeypairs.push(keypair)
+      const ata = await getAssociatedTokenAddress(token.mint, owner, false, token.programId)
+      const account = await getAccount(connection, ata, undefined, token.programId)
+      return Number(account.amount)
+    } catch {
+      // ATA doesn't exist or other error
+      return 0
+    }
+  }
+  
+  // Pick up a changed rotation.strategy after a config reload; an unchanged one keeps its position
+  reloadRotationStrategy(previous: NodeConfig['rotation']['strategy']): void {
+    if (this.config.rotation.strategy !== previous) {
+      this.strategy = createRotationStrategy(this.config.rotation.strategy)
+    }
+  }
+  
+  getRelayWalletByIndex(index: number): PublicKey | null {
+    if (index < 0 || index >= this.relayWallets.length) {
+      return null
+    }
+    return this.relayWallets[index] ?? null
+  }
+  
+  // Find, and with nonce.autoCreate create, the durable nonce account of every relay wallet
+  async setupNonceAccounts(connection: Connection): Promise<void> {
+    if (!this.config.nonce.enabled) return
+    
+    for (const [index, relay] of this.relayWallets.entries()) {
+      try {
+        const nonceAccount = await PublicKey.createWithSeed(relay, NONCE_SEED, SystemProgram.programId)
+        const existing = await connection.getAccountInfo(nonceAccount)
         
-        this.logger.info(`🔑 Relay wallet ${index + 1} loaded: ${keypair.publicKey.toString()}`)
-      }
-      
-      if (this.relayKeypairs.length === 0) {
-        throw new Error('At least one relay signer is required')
+        if (!existing) {
+          if (!this.config.nonce.autoCreate) {
+            this.logger.warn(`⚠️  Relay wallet ${index + 1} has no nonce account (${nonceAccount.toString()}), using recent blockhashes`)
+            continue
+          }
+          await this.createNonceAccount(connection, relay, nonceAccount)
+        }
+        
+        const nonce = await connection.getNonce(nonceAccount)
+        if (!nonce || !nonce.authorizedPubkey.equals(relay)) {
+          this.logger.warn(`⚠️  ${nonceAccount.toString()} is not a nonce account authorized by relay wallet ${index + 1}, ignoring it`)
+          continue
+        }
+        
+        this.nonceAccounts.set(relay.toString(), nonceAccount)
+        this.logger.info(`🔒 Relay wallet ${index + 1} nonce account: ${nonceAccount.toString()}`)
+      } catch (error) {
+        this.logger.warn(`Failed to set up nonce account for relay wallet ${index + 1}:`, error)
       }
-      
-    } catch (error) {
-      throw new Error(`Failed to load relay signers: ${error}`)
     }
   }
   
-  getNextRelayWallet(): Keypair {
-    if (this.relayKeypairs.length === 0) {
-      throw new Error('No relay wallets available')
-    }
+  private async createNonceAccount(connection: Connection, relay: PublicKey, nonceAccount: PublicKey): Promise<void> {
+    const lamports = await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH)
     
-    const wallet = this.relayKeypairs[this.currentRelayIndex]
-    this.currentRelayIndex = (this.currentRelayIndex + 1) % this.relayKeypairs.length
+    // Funded from the relay wallet itself, which is also the nonce authority
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash()
+    const transaction = new Transaction({ feePayer: relay, blockhash, lastValidBlockHeight }).add(
+      SystemProgram.createNonceAccount({
+        fromPubkey: relay,
+        noncePubkey: nonceAccount,
+        basePubkey: relay,
+        seed: NONCE_SEED,
+        authorizedPubkey: relay,
+        lamports
+      })
+    )
+    await this.signer.signTransaction(transaction, [relay])
     
-    return wallet
+    const signature = await connection.sendRawTransaction(transaction.serialize())
+    await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed')
+    this.logger.info(`🔒 Created nonce account ${nonceAccount.toString()} (${lamports} lamports, ${signature})`)
   }
   
-  getRelayWalletByIndex(index: number): Keypair | null {
-    if (index < 0 || index >= this.relayKeypairs.length) {
+  // Reserve the relay wallet's nonce account for one transfer; null if it has none or it is taken
+  acquireNonceAccount(relay: PublicKey): PublicKey | null {
+    const nonceAccount = this.nonceAccounts.get(relay.toString())
+    if (!nonceAccount || this.noncesInUse.has(nonceAccount.toString())) {
       return null
     }
-    return this.relayKeypairs[index]
+    
+    this.noncesInUse.add(nonceAccount.toString())
+    return nonceAccount
+  }
+  
+  // Keep a nonce account out of use while a journaled transfer signed against it may still land
+  holdNonceAccount(nonceAccount: PublicKey): void {
+    this.noncesInUse.add(nonceAccount.toString())
+  }
+  
+  releaseNonceAccount(nonceAccount: PublicKey): void {
+    this.noncesInUse.delete(nonceAccount.toString())
   }
   
   async validateBalances(connection: Connection): Promise<void> {
     const balances = await this.getBalances(connection)
-    const minBalance = 0.01 // 0.01 SOL minimum
+    const minBalance = this.config.rotation.minBalanceSOL
     
     const lowBalanceWallets = balances.filter(w => w.balanceSOL < minBalance)
     
@@ -88,6 +277,13 @@ export class WalletManager {
       throw new Error('All wallets have insufficient balance. Please fund your relay wallets.')
     }
     
+    if (this.feePayerPublicKey) {
+      const feePayerBalance = await connection.getBalance(this.feePayerPublicKey) / LAMPORTS_PER_SOL
+      if (feePayerBalance < minBalance) {
+        this.logger.warn(`⚠️  Fee payer balance is low (${feePayerBalance} SOL < ${minBalance} SOL)`)
+      }
+    }
+    
     this.logger.info(`✅ ${balances.length - lowBalanceWallets.length}/${balances.length} wallets properly funded`)
   }
   
@@ -95,35 +291,39 @@ export class WalletManager {
     const balances: WalletBalance[] = []
     
     // Check all relay wallets
-    for (const [index, keypair] of this.relayKeypairs.entries()) {
+    for (const [index, relay] of this.relayWallets.entries()) {
+      const nonceAccount = this.nonceAccounts.get(relay.toString())
       try {
-        const balance = await connection.getBalance(keypair.publicKey)
+        const balance = await connection.getBalance(relay)
         const balanceSOL = balance / LAMPORTS_PER_SOL
         
-        // Try to get USDC balance if available
-        let balanceUSDC: number | undefined
-        try {
-          const usdcMint = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v') // USDC mainnet
-          const ata = await getAssociatedTokenAddress(usdcMint, keypair.publicKey)
-          const account = await getAccount(connection, ata)
-          balanceUSDC = Number(account.amount) / 1_000_000 // USDC has 6 decimals
-        } catch {
-          // ATA doesn't exist or other error, that's okay
+        // Report every registered token the wallet actually holds
+        const tokenBalances: Record<string, number> = {}
+        for (const token of this.tokenRegistry.list()) {
+          const units = await this.getTokenBalanceUnits(connection, relay, token)
+          if (units > 0) {
+            tokenBalances[token.symbol] = units / 10 ** token.decimals
+          }
         }
         
         balances.push({
-          publicKey: keypair.publicKey.toString(),
+          publicKey: relay.toString(),
           balanceSOL,
-          balanceUSDC,
-          isActive: balanceSOL >= 0.001 // Consider active if has at least 0.001 SOL
+          ...(Object.keys(tokenBalances).length > 0 && { tokenBalances }),
+          isActive: balanceSOL >= this.config.rotation.minBalanceSOL && !this.deactivated.has(relay.toString()),
+          ...(this.deactivated.has(relay.toString()) && { deactivated: true }),
+          usageCount: this.usageCounts[index] ?? 0,
+          ...(nonceAccount && { nonceAccount: nonceAccount.toString() })
         })
         
       } catch (error) {
         this.logger.warn(`Failed to get balance for wallet ${index + 1}: ${error}`)
         balances.push({
-          publicKey: keypair.publicKey.toString(),
+          publicKey: relay.toString(),
           balanceSOL: 0,
-          isActive: false
+          isActive: false,
+          ...(this.deactivated.has(relay.toString()) && { deactivated: true }),
+          usageCount: this.usageCounts[index] ?? 0
         })
       }
     }
@@ -131,8 +331,8 @@ export class WalletManager {
     return balances
   }
   
-  getActiveWallets(): Keypair[] {
-    // For now, return all wallets. In the future, could filter by balance
-    return this.relayKeypairs
+  // Relay wallets in rotation; balance is checked at selection time
+  getActiveWallets(): PublicKey[] {
+    return this.relayWallets.filter(wallet => !this.deactivated.has(wallet.toString()))
   }
 }
\ No newline at end of file